@@ -1,4 +1,13 @@
 module.exports = {
   root: true,
   extends: ["@rockminster/eslint-config"],
+  overrides: [
+    {
+      // Build scripts and configs are CommonJS run by Node
+      files: ["*.js"],
+      rules: {
+        "@typescript-eslint/no-var-requires": "off",
+      },
+    },
+  ],
 };
@@ -18,9 +18,10 @@ const config: StorybookConfig = {
     reactDocgen: "react-docgen-typescript",
   },
   viteFinal: async (config) => {
-    // Configure base path for GitHub Pages
-    if (process.env.NODE_ENV === "production") {
-      config.base = "/FreeState-FreeUI/";
+    // Configure base path for GitHub Pages; other builds keep the relative
+    // base so they can be served from any root (e.g. forced colors snapshots)
+    if (process.env.STORYBOOK_BASE_PATH) {
+      config.base = process.env.STORYBOOK_BASE_PATH;
     }
     return config;
   },
@@ -1,4 +1,6 @@
 import type { Preview } from "@storybook/react";
+import React from "react";
+import { DirectionProvider, type Direction } from "@rockminster/react";
 import "@rockminster/css/dist/index.css";
 
 const preview: Preview = {
@@ -30,6 +32,32 @@ const preview: Preview = {
       },
     },
   },
+  // Every story can be flipped to right-to-left from the toolbar
+  globalTypes: {
+    direction: {
+      description: "Reading direction",
+      toolbar: {
+        title: "Direction",
+        icon: "transfer",
+        items: [
+          { value: "ltr", title: "Left to right" },
+          { value: "rtl", title: "Right to left" },
+        ],
+        dynamicTitle: true,
+      },
+    },
+  },
+  initialGlobals: {
+    direction: "ltr",
+  },
+  decorators: [
+    (Story, context) =>
+      React.createElement(
+        DirectionProvider,
+        { dir: (context.globals.direction ?? "ltr") as Direction },
+        React.createElement(Story)
+      ),
+  ],
   tags: ["autodocs"],
 };
 
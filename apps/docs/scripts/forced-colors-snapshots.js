@@ -0,0 +1,182 @@
+/**
+ * Snapshots every story of the static Storybook build in forced colors mode
+ * (Windows High Contrast), where the browser replaces author colors with the
+ * system palette:
+ *
+ *   pnpm --filter @rockminster/docs test:forced-colors
+ *
+ * Stories are rendered with Playwright's `forcedColors: "active"` emulation
+ * and compared pixel by pixel with the baselines in
+ * `__snapshots__/forced-colors/`. Anti-aliasing and up to
+ * `maxDiffRatio` of differing pixels are tolerated, so font rendering and
+ * PNG encoder differences don't fail the run. Changed stories and stories
+ * without a baseline fail it; their rendering (and for changes a diff) is
+ * saved to `test-results/forced-colors/` for review. Set
+ * `UPDATE_SNAPSHOTS=1` to accept the new renderings and write missing
+ * baselines.
+ *
+ * Text is set in the bundled Inter variable font rather than the system
+ * font stack, so baselines don't depend on the fonts a machine has
+ * installed. `CHROMIUM_PATH` points Playwright at another Chromium build
+ * than its own download, e.g. where that download isn't reachable.
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const pixelmatch = require("pixelmatch");
+const { PNG } = require("pngjs");
+const { chromium } = require("playwright");
+
+const baseUrl = process.env.STORYBOOK_URL ?? "http://localhost:6006";
+const update = process.env.UPDATE_SNAPSHOTS === "1";
+const snapshotDir = path.join(__dirname, "../__snapshots__/forced-colors");
+const resultDir = path.join(__dirname, "../test-results/forced-colors");
+
+/** Per-pixel color distance (0–1) below which pixels count as equal */
+const pixelThreshold = 0.1;
+/** Share of a story's pixels that may differ before it counts as changed */
+const maxDiffRatio = 0.001;
+
+const fontFile = require.resolve(
+  "@fontsource-variable/inter/files/inter-latin-wght-normal.woff2"
+);
+const pinnedFont = `
+@font-face {
+  font-family: "Snapshot Inter";
+  font-weight: 100 900;
+  src: url(data:font/woff2;base64,${fs.readFileSync(fontFile).toString("base64")}) format("woff2");
+}
+*, *::before, *::after {
+  font-family: "Snapshot Inter" !important;
+}
+`;
+
+async function listStories() {
+  const response = await fetch(`${baseUrl}/index.json`);
+  if (!response.ok) {
+    throw new Error(
+      `Could not load ${baseUrl}/index.json (${response.status})`
+    );
+  }
+  const { entries } = await response.json();
+  return Object.values(entries)
+    .filter((entry) => entry.type === "story")
+    .map((entry) => entry.id);
+}
+
+/**
+ * Pixels that differ between two PNGs beyond the tolerance, with a diff
+ * image highlighting them; `null` when the sizes differ
+ */
+function compareImages(actual, expected) {
+  const [a, b] = [PNG.sync.read(actual), PNG.sync.read(expected)];
+  if (a.width !== b.width || a.height !== b.height) {
+    return null;
+  }
+  const diff = new PNG({ width: a.width, height: a.height });
+  const mismatched = pixelmatch(a.data, b.data, diff.data, a.width, a.height, {
+    threshold: pixelThreshold,
+  });
+  return {
+    ratio: mismatched / (a.width * a.height),
+    diff: PNG.sync.write(diff),
+  };
+}
+
+async function snapshotStories(ids) {
+  const browser = await chromium.launch({
+    executablePath: process.env.CHROMIUM_PATH || undefined,
+    args: ["--font-render-hinting=none"],
+  });
+  const changed = [];
+  const missing = [];
+  let written = 0;
+
+  try {
+    const context = await browser.newContext({
+      viewport: { width: 1280, height: 800 },
+      forcedColors: "active",
+      reducedMotion: "reduce",
+    });
+
+    for (const id of ids) {
+      // A fresh page per story: on a reused page, screenshots after some
+      // stories come out in author colors although forced colors still match
+      const page = await context.newPage();
+      let image;
+      try {
+        await page.goto(`${baseUrl}/iframe.html?id=${id}&viewMode=story`);
+        const root = page.locator("#storybook-root");
+        await root.locator(":scope > *").first().waitFor();
+        await page.addStyleTag({ content: pinnedFont });
+        await page.evaluate(() => document.fonts.ready);
+        image = await root.screenshot({ animations: "disabled" });
+      } finally {
+        await page.close();
+      }
+
+      const baseline = path.join(snapshotDir, `${id}.png`);
+      if (update) {
+        fs.writeFileSync(baseline, image);
+        written++;
+        continue;
+      }
+      if (!fs.existsSync(baseline)) {
+        fs.writeFileSync(path.join(resultDir, `${id}.png`), image);
+        missing.push(id);
+        continue;
+      }
+
+      const result = compareImages(image, fs.readFileSync(baseline));
+      if (!result || result.ratio > maxDiffRatio) {
+        fs.writeFileSync(path.join(resultDir, `${id}.png`), image);
+        if (result) {
+          fs.writeFileSync(path.join(resultDir, `${id}.diff.png`), result.diff);
+        }
+        changed.push(
+          `${id} (${result ? `${(result.ratio * 100).toFixed(2)}% of pixels` : "size changed"})`
+        );
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  return { changed, missing, written };
+}
+
+async function main() {
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  fs.rmSync(resultDir, { recursive: true, force: true });
+  fs.mkdirSync(resultDir, { recursive: true });
+
+  const ids = await listStories();
+  const { changed, missing, written } = await snapshotStories(ids);
+
+  console.log(
+    `Forced colors: ${ids.length} stories, ${written} snapshots written, ${changed.length} changed, ${missing.length} without a baseline`
+  );
+  if (changed.length > 0) {
+    console.error(
+      [
+        "Changed in forced colors mode (new renderings and diffs in test-results/forced-colors/):",
+        ...changed.map((id) => `  ✗ ${id}`),
+      ].join("\n")
+    );
+    process.exitCode = 1;
+  }
+  if (missing.length > 0) {
+    console.error(
+      [
+        "No baseline (renderings in test-results/forced-colors/; review them and run with UPDATE_SNAPSHOTS=1 or copy them to __snapshots__/forced-colors/):",
+        ...missing.map((id) => `  ✗ ${id}`),
+      ].join("\n")
+    );
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from "@storybook/react";
 import {
   Stack,
   Inline,
+  Grid,
   Card,
   Text,
   Heading,
@@ -953,13 +954,7 @@ export const ComprehensiveAnalyticsSuite: Story = {
         </Card>
 
         {/* Dashboard Grid */}
-        <div
-          style={{
-            display: "grid",
-            gridTemplateColumns: "repeat(auto-fit, minmax(400px, 1fr))",
-            gap: "24px",
-          }}
-        >
+        <Grid minChildWidth="400px" gap="lg">
           {/* API Usage Summary */}
           <Card padding="lg" shadow="sm">
             <Stack gap="md">
@@ -1134,7 +1129,7 @@ export const ComprehensiveAnalyticsSuite: Story = {
               </Stack>
             </Stack>
           </Card>
-        </div>
+        </Grid>
 
         {/* Action Items */}
         <Card
@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from "@storybook/react";
 import {
   Stack,
   Inline,
+  Grid,
   Card,
   Text,
   Heading,
@@ -503,13 +504,7 @@ export const PlanComparison: Story = {
         </Inline>
 
         {/* Plans Grid */}
-        <div
-          style={{
-            display: "grid",
-            gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))",
-            gap: "24px",
-          }}
-        >
+        <Grid minChildWidth="300px" gap="lg">
           {subscriptionPlans.map((plan) => (
             <Card
               key={plan.id}
@@ -620,7 +615,7 @@ export const PlanComparison: Story = {
               </Stack>
             </Card>
           ))}
-        </div>
+        </Grid>
 
         {/* Bottom Notice */}
         <Card
@@ -698,13 +693,7 @@ export const BillingInformation: Story = {
               </Button>
             </Inline>
 
-            <div
-              style={{
-                display: "grid",
-                gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))",
-                gap: "16px",
-              }}
-            >
+            <Grid minChildWidth="200px" gap="md">
               <Stack gap="xs">
                 <Text size="sm" weight="medium" color="subdued">
                   Company Name
@@ -723,7 +712,7 @@ export const BillingInformation: Story = {
                 </Text>
                 <Text>{mockBillingInfo.taxId || "Not provided"}</Text>
               </Stack>
-            </div>
+            </Grid>
 
             <Separator />
 
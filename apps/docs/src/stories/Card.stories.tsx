@@ -1,5 +1,12 @@
 import type { Meta, StoryObj } from "@storybook/react";
-import { Card } from "@rockminster/react";
+import {
+  Card,
+  Heading,
+  Inline,
+  Stack,
+  Text,
+  useContainerSize,
+} from "@rockminster/react";
 
 const meta: Meta<typeof Card> = {
   title: "Components/Card",
@@ -16,6 +23,7 @@ It's designed to be fully composable and follows WCAG accessibility guidelines.
 - **Surface background**: Uses design system tokens for consistent theming
 - **Configurable padding**: Four padding levels (none, sm, md, lg)
 - **Optional shadows**: Three shadow levels (none, sm, md)
+- **Size container**: With \`container\`, Stack and Inline inside adapt to the card's width through \`@sm\`–\`@xl\` responsive props, and Progress puts its label, bar and value on one line
 - **Fully composable**: Accepts any children and standard div props
 - **Accessible by default**: Semantic HTML with proper ARIA support
 - **Full TypeScript support**: Complete type definitions
@@ -35,6 +43,10 @@ It's designed to be fully composable and follows WCAG accessibility guidelines.
       options: ["none", "sm", "md", "lg"],
       description: "The padding level for the card",
     },
+    container: {
+      control: { type: "boolean" },
+      description: "Whether the card is a size container",
+    },
     children: {
       control: { type: "text" },
       description: "The content of the card",
@@ -353,3 +365,67 @@ export const WithComplexContent: Story = {
     },
   },
 };
+
+const metrics = [
+  { label: "Avg response", value: "847ms" },
+  { label: "Error rate", value: "2.4%" },
+  { label: "Requests/min", value: "1,247" },
+];
+
+function MetricsWidget() {
+  const { ref, width, size } = useContainerSize<HTMLDivElement>();
+
+  return (
+    <Card ref={ref} container padding="md">
+      <Stack gap="md">
+        <Inline justify="space-between">
+          <Heading level={3} size="sm">
+            Current metrics
+          </Heading>
+          <Text size="xs" color="subdued">
+            {width === null ? "" : `${Math.round(width)}px · ${size}`}
+          </Text>
+        </Inline>
+        <Stack
+          direction={{ base: "column", "@sm": "row" }}
+          gap={{ base: "sm", "@md": "lg" }}
+        >
+          {metrics.map((metric) => (
+            <Stack key={metric.label} gap="xs">
+              <Text size={size === "base" ? "lg" : "xl"} weight="bold">
+                {metric.value}
+              </Text>
+              <Text size="sm" color="subdued">
+                {metric.label}
+              </Text>
+            </Stack>
+          ))}
+        </Stack>
+      </Stack>
+    </Card>
+  );
+}
+
+export const Container: Story = {
+  render: () => (
+    <div
+      style={{
+        width: "20rem",
+        maxWidth: "90vw",
+        resize: "horizontal",
+        overflow: "auto",
+        padding: "0.5rem",
+      }}
+    >
+      <MetricsWidget />
+    </div>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "A card with `container` is a size container: the metrics stack while the card is narrow and sit in a row once it reaches the `@sm` container size, whatever the viewport. `useContainerSize()` reports the same size to JavaScript, here to pick the value text size. Drag the corner to resize.",
+      },
+    },
+  },
+};
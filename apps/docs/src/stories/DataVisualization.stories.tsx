@@ -0,0 +1,144 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React from "react";
+import { dataPalettes, type DataPalette } from "@rockminster/tokens";
+import { Card, Heading, Inline, Stack, Text } from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Data Visualization",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Data Visualization Palettes
+
+Charts get their own colors instead of borrowing \`semantic.*\`, which carry status meaning
+(a red series reads as an error). Each palette has light and dark variants and is available
+as CSS variables (\`--freeui-color-data-categorical-1\`, ...) and as ordered arrays:
+
+\`\`\`tsx
+import { dataPalettes, dataPaletteValues } from "@rockminster/tokens";
+
+// CSS variable references that follow the active theme
+const color = dataPalettes.categorical[index % dataPalettes.categorical.length];
+
+// Resolved hex colors for canvas-based chart libraries
+const colors = dataPaletteValues("categorical", "dark");
+\`\`\`
+
+- **Categorical** (10 hues) for unrelated series. Assign them in order: the first colors are
+  the most distinct.
+- **Sequential** (9 steps) for ordered values, from low to high.
+- **Diverging** (9 steps) for values above and below a midpoint, orange to blue.
+
+The token build audits every theme: categorical colors reach 3:1 against the page surface and
+stay apart under simulated protanopia, deuteranopia and tritanopia, and sequential and
+diverging steps change lightness in order, so they read without relying on hue.
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+function Swatches({ palette }: { palette: DataPalette }) {
+  return (
+    <Stack gap="xs">
+      <Text weight="medium">{palette}</Text>
+      <Inline gap="xs" wrap>
+        {dataPalettes[palette].map((color, i) => (
+          <Stack key={color} gap="xs" align="center">
+            <div
+              title={color}
+              style={{
+                width: "3rem",
+                height: "3rem",
+                borderRadius: "var(--freeui-border-radius-md)",
+                backgroundColor: color,
+              }}
+            />
+            <Text size="xs" color="subdued">
+              {i + 1}
+            </Text>
+          </Stack>
+        ))}
+      </Inline>
+    </Stack>
+  );
+}
+
+export const Palettes: Story = {
+  render: () => (
+    <Stack gap="lg">
+      <Swatches palette="categorical" />
+      <Swatches palette="sequential" />
+      <Swatches palette="diverging" />
+    </Stack>
+  ),
+};
+
+const requestsByService = [
+  { service: "api", values: [42, 48, 51, 47] },
+  { service: "auth", values: [18, 21, 19, 24] },
+  { service: "billing", values: [9, 12, 15, 14] },
+  { service: "search", values: [27, 25, 31, 36] },
+  { service: "storage", values: [14, 16, 13, 18] },
+];
+
+export const ChartSeries: Story = {
+  render: () => {
+    const max = Math.max(...requestsByService.flatMap(({ values }) => values));
+    const color = (i: number) =>
+      dataPalettes.categorical[i % dataPalettes.categorical.length];
+
+    return (
+      <Card padding="lg" shadow="sm">
+        <Stack gap="md">
+          <Heading level={3} size="lg">
+            Requests per service (k/min)
+          </Heading>
+          <Inline gap="lg" align="end" style={{ height: "12rem" }}>
+            {["Q1", "Q2", "Q3", "Q4"].map((quarter, q) => (
+              <Stack key={quarter} gap="xs" align="center">
+                <Inline gap="xs" align="end" style={{ height: "10rem" }}>
+                  {requestsByService.map(({ service, values }, i) => (
+                    <div
+                      key={service}
+                      title={`${service}: ${values[q]}`}
+                      style={{
+                        width: "0.75rem",
+                        height: `${(values[q] / max) * 100}%`,
+                        backgroundColor: color(i),
+                        borderRadius: "var(--freeui-border-radius-sm)",
+                      }}
+                    />
+                  ))}
+                </Inline>
+                <Text size="xs" color="subdued">
+                  {quarter}
+                </Text>
+              </Stack>
+            ))}
+          </Inline>
+          <Inline gap="md" wrap>
+            {requestsByService.map(({ service }, i) => (
+              <Inline key={service} gap="xs">
+                <div
+                  style={{
+                    width: "0.75rem",
+                    height: "0.75rem",
+                    borderRadius: "var(--freeui-border-radius-sm)",
+                    backgroundColor: color(i),
+                  }}
+                />
+                <Text size="sm">{service}</Text>
+              </Inline>
+            ))}
+          </Inline>
+        </Stack>
+      </Card>
+    );
+  },
+};
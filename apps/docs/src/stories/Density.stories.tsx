@@ -0,0 +1,120 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React, { useState } from "react";
+import {
+  Button,
+  Card,
+  DensityProvider,
+  Heading,
+  Inline,
+  Input,
+  Select,
+  Stack,
+  Text,
+  ToggleGroup,
+  useDensity,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Density",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Density
+
+Density is a token dimension alongside the theme. \`compact\`, \`comfortable\` (the default)
+and \`spacious\` set the control heights, paddings and font sizes of Button, Input, Select
+and ToggleGroup, the Stack and Inline gaps and the Card padding through the
+\`--freeui-control-*\`, \`--freeui-gap-*\` and \`--freeui-inset-*\` tokens.
+
+\`\`\`tsx
+import { DensityProvider } from "@rockminster/react";
+
+<DensityProvider density="compact">
+  <ObservabilityDashboard />
+</DensityProvider>
+\`\`\`
+
+Without React, set \`data-density\` on any element, including \`<html>\`. Densities nest:
+the nearest \`data-density\` wins. \`useDensity()\` reads the density in effect, e.g. to
+pick how many rows fit on a screen.
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+function SettingsForm() {
+  const density = useDensity();
+  const [range, setRange] = useState("24h");
+
+  return (
+    <Card padding="md" shadow="sm">
+      <Stack gap="md">
+        <Heading level={3} size="lg">
+          {density.charAt(0).toUpperCase() + density.slice(1)}
+        </Heading>
+        <Input placeholder="Service name" />
+        <Select
+          aria-label="Region"
+          options={[
+            { value: "eu-west", label: "EU West" },
+            { value: "us-east", label: "US East" },
+          ]}
+        />
+        <ToggleGroup
+          label="Time range"
+          options={[
+            { value: "1h", label: "1h" },
+            { value: "24h", label: "24h" },
+            { value: "7d", label: "7d" },
+          ]}
+          singleValue={range}
+          onChange={(value) => setRange(value as string)}
+        />
+        <Text size="sm" color="subdued">
+          Gaps, paddings and control sizes follow the density tokens.
+        </Text>
+        <Inline gap="sm">
+          <Button variant="primary" size="sm">
+            Save
+          </Button>
+          <Button variant="outline" size="sm">
+            Cancel
+          </Button>
+        </Inline>
+      </Stack>
+    </Card>
+  );
+}
+
+export const Comparison: Story = {
+  render: () => (
+    <Inline gap="lg" align="start">
+      <DensityProvider density="compact">
+        <SettingsForm />
+      </DensityProvider>
+      <SettingsForm />
+      <DensityProvider density="spacious">
+        <SettingsForm />
+      </DensityProvider>
+    </Inline>
+  ),
+};
+
+export const Nested: Story = {
+  render: () => (
+    <DensityProvider density="spacious">
+      <Stack gap="lg">
+        <SettingsForm />
+        <DensityProvider density="compact">
+          <SettingsForm />
+        </DensityProvider>
+      </Stack>
+    </DensityProvider>
+  ),
+};
@@ -0,0 +1,116 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React from "react";
+import { breakpoints, cssVar, zIndex } from "@rockminster/tokens";
+import { Inline, Stack, Text } from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Elevation & Layers",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Elevation, Stacking and Breakpoints
+
+**Elevation** tokens pair a shadow with a surface color for each level: \`raised\` (cards),
+\`overlay\` (dropdowns, popovers, toasts) and \`modal\` (dialogs). Dark themes raise surfaces
+by lightening them, since shadows barely show on dark backgrounds, so always use both halves
+of a level together:
+
+\`\`\`css
+.popover {
+  background-color: var(--freeui-elevation-overlay-surface);
+  box-shadow: var(--freeui-elevation-overlay-shadow);
+  z-index: var(--freeui-z-index-dropdown);
+}
+\`\`\`
+
+The **z-index** scale names each kind of layer, so popovers, toasts and dialogs stack in a
+fixed order: \`dropdown\` < \`sticky\` < \`overlay\` < \`modal\` < \`toast\` < \`tooltip\`.
+
+**Breakpoints** are emitted as custom media (\`@rockminster/css/dist/custom-media.css\`,
+compiled with \`postcss-custom-media\`) and as the \`breakpoints\` object:
+
+\`\`\`css
+@import "@rockminster/css/dist/custom-media.css";
+
+@media (--freeui-breakpoint-md) { /* width >= 48rem */ }
+@media (--freeui-breakpoint-below-md) { /* width < 48rem */ }
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+const levels = ["raised", "overlay", "modal"] as const;
+
+export const Levels: Story = {
+  render: () => (
+    <div
+      style={{
+        padding: "2rem",
+        backgroundColor: "var(--freeui-color-surface-default)",
+      }}
+    >
+      <Inline gap="xl" align="stretch">
+        {levels.map((level) => (
+          <div
+            key={level}
+            style={{
+              width: "12rem",
+              padding: "var(--freeui-spacing-6)",
+              borderRadius: "var(--freeui-border-radius-lg)",
+              backgroundColor: cssVar(`elevation.${level}.surface`),
+              boxShadow: cssVar(`elevation.${level}.shadow`),
+            }}
+          >
+            <Stack gap="xs">
+              <Text weight="semibold">{level}</Text>
+              <Text size="sm" color="subdued">
+                elevation.{level}
+              </Text>
+            </Stack>
+          </div>
+        ))}
+      </Inline>
+    </div>
+  ),
+};
+
+export const Stacking: Story = {
+  render: () => (
+    <Stack gap="sm">
+      {Object.entries(zIndex).map(([layer, value]) => (
+        <Inline key={layer} gap="md">
+          <Text weight="medium" style={{ minWidth: "6rem" }}>
+            {layer}
+          </Text>
+          <Text as="code" size="sm" color="subdued">
+            --freeui-z-index-{layer}: {value}
+          </Text>
+        </Inline>
+      ))}
+    </Stack>
+  ),
+};
+
+export const Breakpoints: Story = {
+  render: () => (
+    <Stack gap="sm">
+      {Object.entries(breakpoints).map(([name, value]) => (
+        <Inline key={name} gap="md">
+          <Text weight="medium" style={{ minWidth: "6rem" }}>
+            {name}
+          </Text>
+          <Text as="code" size="sm" color="subdued">
+            --freeui-breakpoint-{name}: width &gt;= {value}
+          </Text>
+        </Inline>
+      ))}
+    </Stack>
+  ),
+};
@@ -0,0 +1,105 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React from "react";
+import {
+  Button,
+  Checkbox,
+  Inline,
+  Progress,
+  RadioButton,
+  RadioGroup,
+  Separator,
+  Slider,
+  Stack,
+  StatusIndicator,
+  Switch,
+  ToggleGroup,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Forced Colors",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Forced Colors Mode
+
+In forced colors mode (Windows High Contrast and similar) the browser swaps every
+background, border and text color for the user's system palette and removes box
+shadows. FreeUI redraws the parts that carry state with system colors inside
+\`@media (forced-colors: active)\`:
+
+| State | System color |
+| --- | --- |
+| On, checked, selected, progress fill | \`Highlight\` / \`HighlightText\` |
+| Off, borders, status dots | \`CanvasText\` on \`Canvas\` |
+| Disabled | \`GrayText\` |
+
+## Checking it
+
+- In Chrome DevTools open **Rendering** and set *Emulate CSS media feature
+  forced-colors* to \`active\`.
+- After \`pnpm build\`, \`pnpm --filter @rockminster/docs test:forced-colors\`
+  renders every story with Playwright's forced colors emulation and compares it
+  with the baselines in \`apps/docs/__snapshots__/forced-colors/\`.
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const StatefulParts: Story = {
+  render: () => (
+    <Stack gap="lg">
+      <Inline gap="lg">
+        <Switch label="On" defaultChecked />
+        <Switch label="Off" />
+        <Switch label="Disabled on" defaultChecked disabled />
+        <Switch label="Disabled off" disabled />
+      </Inline>
+      <Inline gap="lg">
+        <Checkbox label="Checked" defaultChecked />
+        <Checkbox label="Unchecked" />
+        <Checkbox label="Disabled checked" defaultChecked disabled />
+        <Checkbox label="Disabled" disabled />
+      </Inline>
+      <RadioGroup name="forced-colors-radio" direction="row" gap="lg">
+        <RadioButton label="Selected" value="selected" defaultChecked />
+        <RadioButton label="Not selected" value="not-selected" />
+        <RadioButton label="Disabled" value="disabled" disabled />
+      </RadioGroup>
+      <ToggleGroup
+        label="Range"
+        id="forced-colors-range"
+        singleValue="week"
+        options={[
+          { value: "day", label: "Day" },
+          { value: "week", label: "Week" },
+          { value: "month", label: "Month" },
+          { value: "year", label: "Year", disabled: true },
+        ]}
+      />
+      <Slider label="Volume" defaultValue={40} showValue />
+      <Slider label="Disabled" defaultValue={60} disabled />
+      <Progress label="Upload" value={65} showValue />
+      <Inline gap="lg">
+        <StatusIndicator status="healthy" label="API" showStatus />
+        <StatusIndicator status="warning" label="Queue" showStatus />
+        <StatusIndicator status="critical" label="Database" showStatus />
+        <StatusIndicator status="unknown" label="Cache" showStatus />
+        <StatusIndicator status="loading" label="Search" showStatus />
+      </Inline>
+      <Separator />
+      <Inline gap="sm">
+        <Button variant="primary">Save</Button>
+        <Button variant="secondary">Cancel</Button>
+        <Button variant="primary" disabled>
+          Disabled
+        </Button>
+      </Inline>
+    </Stack>
+  ),
+};
@@ -0,0 +1,113 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React, { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Heading,
+  Inline,
+  Stack,
+  Switch,
+  Text,
+  ToggleGroup,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/High Contrast",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# High Contrast Themes
+
+For low-vision users AA is not enough. The high-contrast themes hold every text pair
+to WCAG AAA (7:1), thicken borders (\`--freeui-border-width-*\`) and widen focus rings
+(\`--freeui-focus-ring-*\`). The contrast audit in \`build:tokens\` enforces AAA for them.
+
+## Usage
+
+The themes apply automatically when the operating system asks for more contrast
+(\`@media (prefers-contrast: more)\`) on top of the light theme and on top of
+\`data-theme="dark"\`. They can also be chosen explicitly, on the root or on any container:
+
+\`\`\`html
+<html data-theme="high-contrast-light">
+<section data-theme="high-contrast-dark">
+\`\`\`
+
+Brand themes (\`data-theme="<brand>-light"\`) are left as they are under
+\`prefers-contrast\`.
+
+## Not relying on color
+
+Checked and selected states stay distinguishable without color: checkboxes show a
+check mark, switches move a ringed thumb and toggle group selections are bold and
+underlined.
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+function ControlsPreview({ theme }: { theme: string }) {
+  const [notifications, setNotifications] = useState(true);
+  const [metrics, setMetrics] = useState<string[]>(["cpu", "memory"]);
+
+  return (
+    <div
+      data-theme={theme}
+      style={{
+        flex: 1,
+        padding: "1.5rem",
+        borderRadius: "var(--freeui-border-radius-lg)",
+        border:
+          "var(--freeui-border-width-default) solid var(--freeui-color-border-default)",
+        backgroundColor: "var(--freeui-color-surface-default)",
+      }}
+    >
+      <Stack gap="md">
+        <Heading level={3} size="lg">
+          {theme}
+        </Heading>
+        <Text color="subdued">Subdued text meets 7:1 against the surface.</Text>
+        <Switch
+          label="Email notifications"
+          checked={notifications}
+          onChange={(event) => setNotifications(event.target.checked)}
+        />
+        <Switch label="Weekly digest" checked={false} readOnly />
+        <Checkbox label="Include archived projects" defaultChecked />
+        <Checkbox label="Include drafts" />
+        <ToggleGroup
+          label="Metrics"
+          id={`${theme}-metrics`}
+          multiple
+          value={metrics}
+          onChange={(value) => setMetrics(value as string[])}
+          options={[
+            { value: "cpu", label: "CPU" },
+            { value: "memory", label: "Memory" },
+            { value: "network", label: "Network" },
+          ]}
+        />
+        <Inline gap="sm">
+          <Button variant="primary">Save</Button>
+          <Button variant="secondary">Cancel</Button>
+          <Button variant="destructive">Delete</Button>
+        </Inline>
+      </Stack>
+    </div>
+  );
+}
+
+export const SideBySide: Story = {
+  render: () => (
+    <Inline gap="lg" align="stretch">
+      <ControlsPreview theme="high-contrast-light" />
+      <ControlsPreview theme="high-contrast-dark" />
+    </Inline>
+  ),
+};
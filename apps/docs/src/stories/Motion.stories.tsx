@@ -0,0 +1,93 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React from "react";
+import {
+  Button,
+  Card,
+  Heading,
+  Inline,
+  Progress,
+  Stack,
+  StatusIndicator,
+  Text,
+  useReducedMotion,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Motion",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Motion
+
+Transitions use the \`--freeui-motion-duration-*\` tokens and looping animations the
+\`--freeui-motion-loop-*\` tokens. Under \`prefers-reduced-motion: reduce\` they all collapse
+to \`0ms\`, and every animated component falls back to a static state that means the same:
+
+| Component | Animated | Reduced motion |
+| --- | --- | --- |
+| Button \`loading\` | Spinning ring | Still partial ring |
+| StatusIndicator \`pulse\` | Rippling halo | Steady halo |
+| Progress \`indeterminate\` | Bar sweeping across | Full striped bar |
+
+\`data-motion="reduced"\` forces reduced motion on any element; \`data-motion="full"\` on
+\`<html>\` opts out of the system setting. For animation driven from JavaScript:
+
+\`\`\`tsx
+import { useReducedMotion } from "@rockminster/react";
+
+const reduceMotion = useReducedMotion();
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+function AnimatedStates({ title }: { title: string }) {
+  return (
+    <Card padding="md" shadow="sm" style={{ width: "18rem" }}>
+      <Stack gap="md">
+        <Heading level={3} size="md">
+          {title}
+        </Heading>
+        <Button variant="primary" size="sm" loading>
+          Deploying
+        </Button>
+        <StatusIndicator status="loading" label="Ingest pipeline" pulse />
+        <Progress value={0} label="Rebuilding index" indeterminate />
+      </Stack>
+    </Card>
+  );
+}
+
+export const ReducedMotion: Story = {
+  render: () => (
+    <Inline gap="lg" align="start">
+      <AnimatedStates title="Full motion" />
+      <div data-motion="reduced">
+        <AnimatedStates title="Reduced motion" />
+      </div>
+    </Inline>
+  ),
+};
+
+function MotionPreference() {
+  const reduceMotion = useReducedMotion();
+
+  return (
+    <Text>
+      <code>useReducedMotion()</code> returns{" "}
+      <strong>{String(reduceMotion)}</strong>. Turn on reduced motion in your
+      system settings to see it change.
+    </Text>
+  );
+}
+
+export const Hook: Story = {
+  render: () => <MotionPreference />,
+};
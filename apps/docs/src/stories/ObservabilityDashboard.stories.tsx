@@ -3,6 +3,7 @@ import React from "react";
 import {
   Stack,
   Inline,
+  Grid,
   Card,
   Text,
   Heading,
@@ -37,6 +38,8 @@ using FreeUI's compositional design principles and the new observability-focused
 - **Log Viewer Interface**: Scrollable log display with filtering capabilities
 - **Timeline Visualization**: Historical data display with event markers
 - **Interactive Controls**: Switches, selectors, and toggle groups for dashboard configuration
+- **Responsive Layout**: The header stacks on narrow viewports and card padding grows on wide ones, through per-breakpoint \`direction\`, \`align\`, \`gap\` and \`padding\` props
+- **Container Queries**: The resource and metrics cards are size containers (\`<Card container>\`), so their Progress rows and metrics lay out by the card's width, wherever the card is placed
 
 ## Components Used
 
@@ -48,7 +51,7 @@ using FreeUI's compositional design principles and the new observability-focused
 - **Alert**: Critical notifications and error reporting
 
 ### Existing Primitives:
-- **Stack/Inline**: Layout composition
+- **Stack/Inline**: Layout composition, with responsive props like \`direction={{ base: "column", md: "row" }}\`
 - **Card**: Content containers and sections
 - **Text/Heading**: Typography and content
 - **Button**: Actions and controls
@@ -180,9 +183,14 @@ export const ComprehensiveObservabilityDashboard: Story = {
           minHeight: "100vh",
         }}
       >
-        <Stack gap="xl">
+        <Stack gap={{ base: "lg", lg: "xl" }}>
           {/* Header */}
-          <Inline justify="space-between" align="center">
+          <Inline
+            direction={{ base: "column", md: "row" }}
+            justify="space-between"
+            align={{ base: "start", md: "center" }}
+            gap="md"
+          >
             <Stack gap="xs">
               <Heading level={1} size="lg">
                 System Observability Dashboard
@@ -192,7 +200,7 @@ export const ComprehensiveObservabilityDashboard: Story = {
                 infrastructure
               </Text>
             </Stack>
-            <Inline gap="sm">
+            <Inline gap="sm" wrap>
               <Switch
                 label="Auto-refresh"
                 checked={autoRefresh}
@@ -244,7 +252,7 @@ export const ComprehensiveObservabilityDashboard: Story = {
           )}
 
           {/* Dashboard Controls */}
-          <Card padding="lg" shadow="sm">
+          <Card padding={{ base: "md", lg: "lg" }} shadow="sm">
             <Stack gap="md">
               <Heading level={3} size="sm">
                 Dashboard Configuration
@@ -270,15 +278,9 @@ export const ComprehensiveObservabilityDashboard: Story = {
           </Card>
 
           {/* System Overview Grid */}
-          <div
-            style={{
-              display: "grid",
-              gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))",
-              gap: "24px",
-            }}
-          >
+          <Grid minChildWidth="300px" gap="lg">
             {/* Service Health */}
-            <Card padding="lg" shadow="sm">
+            <Card padding={{ base: "md", lg: "lg" }} shadow="sm">
               <Stack gap="md">
                 <Heading level={3} size="sm">
                   Service Health
@@ -309,7 +311,7 @@ export const ComprehensiveObservabilityDashboard: Story = {
             </Card>
 
             {/* Resource Metrics */}
-            <Card padding="lg" shadow="sm">
+            <Card padding={{ base: "md", lg: "lg" }} shadow="sm" container>
               <Stack gap="md">
                 <Heading level={3} size="sm">
                   Resource Usage
@@ -345,18 +347,18 @@ export const ComprehensiveObservabilityDashboard: Story = {
             </Card>
 
             {/* Quick Metrics */}
-            <Card padding="lg" shadow="sm">
+            <Card padding={{ base: "md", lg: "lg" }} shadow="sm" container>
               <Stack gap="md">
                 <Heading level={3} size="sm">
                   Current Metrics
                 </Heading>
 
-                <div
-                  style={{
-                    display: "grid",
-                    gridTemplateColumns: "1fr 1fr",
-                    gap: "16px",
-                  }}
+                <Inline
+                  wrap
+                  direction={{ base: "column", "@sm": "row" }}
+                  justify="space-around"
+                  align={{ base: "center", "@sm": "start" }}
+                  gap="md"
                 >
                   <Stack gap="xs" align="center">
                     <Text size="xl" weight="bold" color="accent">
@@ -393,13 +395,13 @@ export const ComprehensiveObservabilityDashboard: Story = {
                       Availability
                     </Text>
                   </Stack>
-                </div>
+                </Inline>
               </Stack>
             </Card>
-          </div>
+          </Grid>
 
           {/* Log Viewer */}
-          <Card padding="lg" shadow="sm">
+          <Card padding={{ base: "md", lg: "lg" }} shadow="sm">
             <Stack gap="md">
               <Inline justify="space-between" align="center">
                 <Heading level={3} size="sm">
@@ -471,7 +473,7 @@ export const ComprehensiveObservabilityDashboard: Story = {
           </Card>
 
           {/* Event Timeline */}
-          <Card padding="lg" shadow="sm">
+          <Card padding={{ base: "md", lg: "lg" }} shadow="sm">
             <Stack gap="md">
               <Heading level={3} size="sm">
                 Recent Events
@@ -0,0 +1,216 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React from "react";
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Checkbox,
+  Diff,
+  Heading,
+  Inline,
+  Input,
+  Progress,
+  RadioButton,
+  RadioGroup,
+  Select,
+  Separator,
+  Slider,
+  Stack,
+  StatusIndicator,
+  Switch,
+  Text,
+  Timeline,
+  ToggleGroup,
+  useDirection,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Right-to-Left",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Right-to-Left
+
+Component styles use logical properties (\`margin-inline-start\`, \`border-inline-end\`,
+\`text-align: start\`, ...) and \`:dir(rtl)\` for the few direction-aware transforms, so
+every component mirrors under \`dir="rtl"\`: the Switch thumb travels leftward, the Slider
+fills from the right, the Alert dismiss button and the Diff line-number gutter swap
+sides and Inline \`justify="start"\` packs items to the right.
+
+\`\`\`tsx
+import { DirectionProvider } from "@rockminster/react";
+
+<DirectionProvider dir="rtl">
+  <ObservabilityDashboard />
+</DirectionProvider>
+\`\`\`
+
+Without React, set \`dir\` on any element, including \`<html>\`. Directions nest: the
+nearest \`dir\` wins. \`useDirection()\` reads the direction of the nearest provider, for
+code that computes positions itself.
+
+Every story can be switched to right-to-left with the **Direction** toolbar button;
+the stories below are pinned to it.
+        `,
+      },
+    },
+  },
+  globals: {
+    direction: "rtl",
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const FormControls: Story = {
+  render: () => (
+    <Stack gap="lg">
+      <Inline gap="sm">
+        <Button variant="primary">Save</Button>
+        <Button variant="secondary">Cancel</Button>
+        <Button variant="primary" loading>
+          Saving
+        </Button>
+      </Inline>
+      <Input placeholder="Search tenants" aria-label="Search tenants" />
+      <Select
+        label="Region"
+        description="Where the tenant's data is stored"
+        placeholder="Choose a region"
+        options={[
+          { value: "me-central", label: "Middle East (UAE)" },
+          { value: "il-central", label: "Israel (Tel Aviv)" },
+          { value: "eu-west", label: "Europe (Ireland)" },
+        ]}
+      />
+      <Checkbox
+        label="Send weekly report"
+        description="Every Sunday morning"
+        defaultChecked
+      />
+      <RadioGroup name="rtl-plan" direction="row" gap="lg">
+        <RadioButton
+          label="Monthly"
+          value="monthly"
+          description="Billed every month"
+          defaultChecked
+        />
+        <RadioButton label="Yearly" value="yearly" />
+      </RadioGroup>
+      <Inline gap="lg">
+        <Switch label="Notifications" defaultChecked />
+        <Switch label="Dark mode" />
+        <Switch label="Label first" labelPosition="start" defaultChecked />
+      </Inline>
+      <ToggleGroup
+        label="Range"
+        id="rtl-range"
+        singleValue="week"
+        options={[
+          { value: "day", label: "Day" },
+          { value: "week", label: "Week" },
+          { value: "month", label: "Month" },
+        ]}
+      />
+      <Slider label="Volume" defaultValue={30} showValue />
+      <Slider label="Disabled" defaultValue={70} disabled />
+    </Stack>
+  ),
+};
+
+export const Layout: Story = {
+  render: () => (
+    <Stack gap="lg">
+      <Card padding="md" shadow="sm">
+        <Stack gap="sm">
+          <Heading level={3} size="md">
+            Justify start
+          </Heading>
+          <Inline gap="sm" justify="start">
+            <Badge variant="info">One</Badge>
+            <Badge variant="info">Two</Badge>
+            <Badge variant="info">Three</Badge>
+          </Inline>
+          <Heading level={3} size="md">
+            Justify end
+          </Heading>
+          <Inline gap="sm" justify="end">
+            <Badge variant="success">One</Badge>
+            <Badge variant="success">Two</Badge>
+            <Badge variant="success">Three</Badge>
+          </Inline>
+        </Stack>
+      </Card>
+      <Separator variant="dashed" />
+      <Inline gap="md" align="stretch">
+        <Text>First</Text>
+        <Separator orientation="vertical" variant="dotted" />
+        <Text>Second</Text>
+        <Timeline orientation="vertical" variant="dashed" />
+        <Text>Third</Text>
+      </Inline>
+      <Timeline variant="dotted" />
+    </Stack>
+  ),
+};
+
+export const Display: Story = {
+  render: () => (
+    <Stack gap="lg">
+      <Alert variant="warning" title="Quota almost reached" dismissible>
+        The tenant has used 90% of this month&apos;s API calls.
+      </Alert>
+      <Alert variant="info" size="sm">
+        Maintenance is scheduled for Friday.
+      </Alert>
+      <Diff
+        title="config.yaml"
+        lines={[
+          { type: "unchanged", content: "locale: en", lineNumber: 1 },
+          { type: "removed", content: "direction: ltr", lineNumber: 2 },
+          { type: "added", content: "direction: rtl", lineNumber: 2 },
+        ]}
+      />
+      <Progress label="Upload" value={65} showValue />
+      <Progress label="Indexing" value={0} indeterminate />
+      <Inline gap="lg">
+        <StatusIndicator status="healthy" label="API" showStatus />
+        <StatusIndicator status="warning" label="Queue" showStatus pulse />
+      </Inline>
+      <Stack gap="xs">
+        <Heading level={2} size="lg">
+          Tenant overview
+        </Heading>
+        <Text color="subdued">
+          Text and headings align to the inline start.
+        </Text>
+        <Inline gap="xs">
+          <Badge variant="neutral">Arabic</Badge>
+          <Badge variant="neutral" filled={false}>
+            Hebrew
+          </Badge>
+        </Inline>
+      </Stack>
+    </Stack>
+  ),
+};
+
+function DirectionReadout() {
+  const direction = useDirection();
+
+  return (
+    <Card padding="md" shadow="sm">
+      <Text>
+        <code>useDirection()</code> returns <strong>{direction}</strong>
+      </Text>
+    </Card>
+  );
+}
+
+export const Hook: Story = {
+  render: () => <DirectionReadout />,
+};
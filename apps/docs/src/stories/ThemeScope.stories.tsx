@@ -0,0 +1,183 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import React, { useMemo, useState } from "react";
+import { createTheme } from "@rockminster/tokens";
+import {
+  Badge,
+  Button,
+  Card,
+  Checkbox,
+  Heading,
+  Inline,
+  Input,
+  Stack,
+  Switch,
+  Text,
+  ThemeProvider,
+  ThemeScope,
+  useTheme,
+} from "@rockminster/react";
+
+const meta: Meta = {
+  title: "Design Tokens/Theme Scope",
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+# Theme Scope
+
+\`ThemeScope\` overrides tokens for a subtree at runtime, for example a tenant's brand
+color, without running the token build. The overrides become scoped \`--freeui-*\`
+custom properties on a wrapper element, and the semantic aliases inside follow them,
+so buttons, badges and form controls pick up the new palette.
+
+\`\`\`tsx
+import { createTheme } from "@rockminster/tokens";
+import { ThemeScope } from "@rockminster/react";
+
+const tenantTheme = createTheme({ brand: tenant.brandColor });
+
+<ThemeScope theme={tenantTheme}>
+  <TenantDashboard />
+</ThemeScope>
+\`\`\`
+
+A \`theme\` from \`createTheme()\` has light and dark palettes; the scope applies the one
+matching the nearest \`ThemeProvider\` (light outside one), or the one named by \`variant\`.
+Individual tokens go in \`tokens\`, which applies on top of \`theme\`.
+
+Token paths are type-checked (\`color.brnad\` does not compile) and unknown paths throw
+at runtime. Scopes nest: an inner scope inherits the outer overrides and adds its own.
+To turn overrides into custom properties without the wrapper, use \`toCssVariables()\`
+from \`@rockminster/tokens\`.
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+function TenantPreview({ name }: { name: string }) {
+  return (
+    <Card padding="lg" shadow="sm">
+      <Stack gap="md">
+        <Heading level={3} size="lg">
+          {name}
+        </Heading>
+        <Text color="subdued">
+          Accent text, badges and controls use the scoped palette.
+        </Text>
+        <Inline gap="sm">
+          <Badge variant="default">Default</Badge>
+          <Badge variant="default" filled>
+            Filled
+          </Badge>
+        </Inline>
+        <Switch label="Notifications" defaultChecked />
+        <Checkbox label="Weekly digest" defaultChecked />
+        <Inline gap="sm">
+          <Button variant="primary">Upgrade</Button>
+          <Button variant="outline">Details</Button>
+        </Inline>
+      </Stack>
+    </Card>
+  );
+}
+
+const violetTheme = createTheme({ brand: "#7c3aed" });
+const tealTheme = createTheme({ brand: "#0f766e" });
+const roseTheme = createTheme({ brand: "#be123c" });
+
+export const Tenants: Story = {
+  render: () => (
+    <Inline gap="lg" align="stretch">
+      <TenantPreview name="Default" />
+      <ThemeScope theme={violetTheme}>
+        <TenantPreview name="Violet tenant" />
+      </ThemeScope>
+      <ThemeScope theme={tealTheme}>
+        <TenantPreview name="Teal tenant" />
+      </ThemeScope>
+    </Inline>
+  ),
+};
+
+export const Nested: Story = {
+  render: () => (
+    <ThemeScope theme={roseTheme}>
+      <Stack gap="lg">
+        <TenantPreview name="Outer scope: brand" />
+        <ThemeScope tokens={{ "border-radius": { md: "0", lg: "0" } }}>
+          <TenantPreview name="Inner scope: square corners, same brand" />
+        </ThemeScope>
+      </Stack>
+    </ThemeScope>
+  ),
+};
+
+function ThemeToggle() {
+  const { resolvedTheme, setTheme } = useTheme();
+
+  return (
+    <Switch
+      label="Dark theme"
+      checked={resolvedTheme === "dark"}
+      onChange={(event) => setTheme(event.target.checked ? "dark" : "light")}
+    />
+  );
+}
+
+export const LightAndDark: Story = {
+  render: () => (
+    <ThemeProvider defaultTheme="light" storage={null}>
+      <Stack gap="lg">
+        <ThemeToggle />
+        <ThemeScope theme={violetTheme}>
+          <TenantPreview name="Violet tenant" />
+        </ThemeScope>
+      </Stack>
+    </ThemeProvider>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "The scope switches to the dark palette of `createTheme()`, the ramp mirrored around `500`, when the ThemeProvider does.",
+      },
+    },
+  },
+};
+
+function BrandPicker() {
+  const [brand, setBrand] = useState("#c2410c");
+  const valid = /^#[0-9a-f]{6}$/i.test(brand);
+  const theme = useMemo(
+    () => (valid ? createTheme({ brand }) : undefined),
+    [brand, valid]
+  );
+
+  return (
+    <Stack gap="lg">
+      <Stack gap="xs">
+        <Input
+          aria-label="Brand color"
+          value={brand}
+          onChange={(event) => setBrand(event.target.value)}
+          error={!valid}
+        />
+        <Text size="sm" color="subdued">
+          Brand color as #rrggbb; the palettes are derived with createTheme()
+        </Text>
+      </Stack>
+      <ThemeScope theme={theme}>
+        <TenantPreview name="Live preview" />
+      </ThemeScope>
+    </Stack>
+  );
+}
+
+export const LiveBrandColor: Story = {
+  render: () => <BrandPicker />,
+};
@@ -1,6 +1,12 @@
 import type { Meta, StoryObj } from "@storybook/react";
-import React, { useState } from "react";
+import React from "react";
 import { colors } from "@rockminster/tokens";
+import {
+  ThemeProvider,
+  ToggleGroup,
+  useTheme,
+  type ThemePreference,
+} from "@rockminster/react";
 
 const meta: Meta = {
   title: "Design Tokens/Theme Toggle",
@@ -16,7 +22,38 @@ Toggle between light and dark themes to see how colors adapt while maintaining W
 
 ## Usage
 
-Add \`data-theme="dark"\` to the root element or any container to enable dark mode:
+Wrap the app in \`ThemeProvider\` and switch themes with \`useTheme()\`. The provider
+supports \`light\`, \`dark\` and \`system\` (which follows \`prefers-color-scheme\` live)
+and persists the choice to \`localStorage\`, or to any \`{ getItem, setItem }\` storage:
+
+\`\`\`tsx
+import {
+  ThemeProvider,
+  ThemeScript,
+  useTheme,
+  type ThemePreference,
+} from "@rockminster/react";
+
+function ThemeSwitcher() {
+  const { theme, setTheme } = useTheme();
+  return (
+    <select value={theme} onChange={(event) => setTheme(event.target.value as ThemePreference)}>
+      <option value="light">Light</option>
+      <option value="dark">Dark</option>
+      <option value="system">System</option>
+    </select>
+  );
+}
+
+<ThemeProvider defaultTheme="system">
+  <ThemeSwitcher />
+</ThemeProvider>
+\`\`\`
+
+For server rendering, render \`<ThemeScript />\` in \`<head>\` with the same options.
+It sets \`data-theme\` before first paint, so there is no flash of the wrong theme.
+
+Without the provider, add \`data-theme="dark"\` to the root element or any container:
 
 \`\`\`html
 <html data-theme="dark">
@@ -38,21 +75,16 @@ export default meta;
 type Story = StoryObj<typeof meta>;
 
 function ThemeToggleDemo() {
-  const [isDark, setIsDark] = useState(false);
+  const { theme, resolvedTheme, setTheme } = useTheme();
 
+  // Leave the other stories in the light theme
   React.useEffect(() => {
     const rootElement = document.documentElement;
-    if (isDark) {
-      rootElement.setAttribute("data-theme", "dark");
-    } else {
-      rootElement.removeAttribute("data-theme");
-    }
-
-    // Cleanup on unmount
     return () => {
       rootElement.removeAttribute("data-theme");
+      rootElement.style.removeProperty("color-scheme");
     };
-  }, [isDark]);
+  }, []);
 
   return (
     <div
@@ -88,38 +120,20 @@ function ThemeToggleDemo() {
         >
           FreeUI Theme Demo
         </h1>
-        <button
-          onClick={() => setIsDark(!isDark)}
-          style={{
-            backgroundColor: "var(--freeui-color-brand-500)",
-            color: "var(--freeui-color-white)",
-            border: "none",
-            borderRadius: "8px",
-            padding: "0.75rem 1.5rem",
-            cursor: "pointer",
-            fontSize: "0.875rem",
-            fontWeight: 500,
-            transition: "all 0.2s ease",
-          }}
-          onMouseOver={(e) => {
-            e.currentTarget.style.backgroundColor =
-              "var(--freeui-color-brand-600)";
+        <ToggleGroup
+          aria-label="Theme"
+          singleValue={theme}
+          onChange={(value) => {
+            if (value) {
+              setTheme(value as ThemePreference);
+            }
           }}
-          onMouseOut={(e) => {
-            e.currentTarget.style.backgroundColor =
-              "var(--freeui-color-brand-500)";
-          }}
-          onFocus={(e) => {
-            e.currentTarget.style.backgroundColor =
-              "var(--freeui-color-brand-600)";
-          }}
-          onBlur={(e) => {
-            e.currentTarget.style.backgroundColor =
-              "var(--freeui-color-brand-500)";
-          }}
-        >
-          {isDark ? "🌞 Switch to Light" : "🌙 Switch to Dark"}
-        </button>
+          options={[
+            { value: "light", label: "🌞 Light" },
+            { value: "dark", label: "🌙 Dark" },
+            { value: "system", label: "💻 System" },
+          ]}
+        />
       </div>
 
       {/* Color Palette Demo */}
@@ -451,8 +465,8 @@ function ThemeToggleDemo() {
             fontSize: "0.875rem",
           }}
         >
-          Current theme: <strong>{isDark ? "Dark" : "Light"}</strong> • All
-          colors are WCAG AA compliant • Powered by FreeUI Design System
+          Current theme: <strong>{theme}</strong> ({resolvedTheme}) • All colors
+          are WCAG AA compliant • Powered by FreeUI Design System
         </p>
       </div>
     </div>
@@ -460,7 +474,11 @@ function ThemeToggleDemo() {
 }
 
 export const ThemeToggle: Story = {
-  render: () => <ThemeToggleDemo />,
+  render: () => (
+    <ThemeProvider storageKey="freeui-docs-theme">
+      <ThemeToggleDemo />
+    </ThemeProvider>
+  ),
   parameters: {
     docs: {
       story: {
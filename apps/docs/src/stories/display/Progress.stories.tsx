@@ -26,6 +26,7 @@ Essential for showing system health, resource usage, and operational metrics in
 - **Flexible sizing**: Small, medium, and large variants
 - **Indeterminate state**: Loading indicators for real-time metrics
 - **Value display**: Optional percentage or custom value display
+- **Container-aware**: Inside a \`<Card container>\` of at least the \`sm\` container size, label, bar and value share one line
 - **Compositional**: Works seamlessly with other layout primitives
 
 ## Observability Usage
@@ -226,3 +227,41 @@ export const SystemMetricsDashboard: Story = {
     },
   },
 };
+
+export const InContainer: Story = {
+  render: () => (
+    <div
+      style={{
+        width: "20rem",
+        maxWidth: "90vw",
+        resize: "horizontal",
+        overflow: "auto",
+        padding: "0.5rem",
+      }}
+    >
+      <Card container padding="md">
+        <Stack gap="md">
+          <Heading level={3} size="sm">
+            Resource usage
+          </Heading>
+          <Progress value={72} label="CPU Usage" variant="warning" showValue />
+          <Progress
+            value={45}
+            label="Memory Usage"
+            variant="success"
+            showValue
+          />
+          <Progress value={88} label="Disk Space" variant="danger" showValue />
+        </Stack>
+      </Card>
+    </div>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "In a card with `container`, each labelled bar sits on one line between its label and value once the card reaches the `sm` container size (24rem), and the label moves back above the bar when it is narrower. Drag the corner to resize.",
+      },
+    },
+  },
+};
@@ -22,6 +22,7 @@ without being tied to specific use cases. Rather than creating specialized text
 - **Weight variants**: Four weight options for hierarchy
 - **Semantic colors**: Six color variants for different contexts
 - **Truncation support**: Optional ellipsis overflow behavior
+- **Fluid sizes**: Optional viewport-based scaling for \`lg\` and \`xl\` text and for headings
 - **Flexible HTML**: Customizable element type (span, p, div, etc.)
 - **Full composability**: Works as building block for complex components
 
@@ -54,6 +55,10 @@ This maintains consistency and reduces the number of components developers need
       control: { type: "boolean" },
       description: "Whether to truncate with ellipsis",
     },
+    fluid: {
+      control: { type: "boolean" },
+      description: "Whether lg and xl sizes scale with the viewport width",
+    },
     as: {
       control: { type: "text" },
       description: "HTML element to render",
@@ -243,3 +248,34 @@ export const TruncationBehavior: Story = {
     },
   },
 };
+
+export const FluidTypography: Story = {
+  render: () => (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <Heading level={1} size="xxl" fluid>
+          Cluster overview
+        </Heading>
+        <Text size="lg" color="subdued" fluid>
+          Fluid sizes shrink on narrow screens
+        </Text>
+      </div>
+      <div>
+        <Heading level={2} size="xxl">
+          Cluster overview
+        </Heading>
+        <Text size="lg" color="subdued">
+          Fixed sizes stay the same at every width
+        </Text>
+      </div>
+    </div>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "With `fluid`, Heading (`sm` and up) and Text (`lg`, `xl`) use the `--freeui-font-size-fluid-*` tokens: `clamp()` values that scale from one step smaller at the `viewport.min` width (20rem) to the full size at `viewport.max` (80rem). Resize the canvas or switch viewports to compare.",
+      },
+    },
+  },
+};
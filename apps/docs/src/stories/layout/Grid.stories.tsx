@@ -0,0 +1,232 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import {
+  Grid,
+  GridItem,
+  Card,
+  Stack,
+  Text,
+  Heading,
+  Badge,
+} from "@rockminster/react";
+
+const meta: Meta<typeof Grid> = {
+  title: "Layout/Grid",
+  component: Grid,
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+Grid is a layout component for two-dimensional arrangement of elements with consistent spacing.
+
+## Compositional Approach
+
+Grid complements Stack and Inline: it places any children on rows and columns, and GridItem
+lets a child span several of them or sit in a named area. Card grids, metric panels and page
+shells are composed from it rather than from hand-written \`display: grid\` styles.
+
+## Features
+- **Flexible spacing**: The same six gap levels as Stack and Inline
+- **Column counts**: One to twelve equal-width columns
+- **Auto-fit columns**: \`minChildWidth\` fits as many columns as there is room for
+- **Area templates**: Named areas, one string per row, placed with \`GridItem area\`
+- **Spans**: \`GridItem colSpan\` and \`rowSpan\`, or \`colSpan="full"\` for the whole row
+- **Responsive props**: \`gap\`, \`columns\`, \`areas\`, \`colSpan\` and \`rowSpan\` take one value per breakpoint or container size, e.g. \`columns={{ base: 1, md: 2, lg: 4 }}\`
+
+## Usage Philosophy
+
+Reach for \`minChildWidth\` when the items decide how many fit, and for \`columns\` when the
+layout does. Use Stack or Inline for a single row or column.
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    gap: {
+      control: { type: "select" },
+      options: ["none", "xs", "sm", "md", "lg", "xl"],
+      description: "Spacing between rows and columns",
+    },
+    columns: {
+      control: { type: "select" },
+      options: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+      description: "Number of equal-width columns",
+    },
+    minChildWidth: {
+      control: { type: "text" },
+      description: "Minimum width of auto-fit columns",
+    },
+    align: {
+      control: { type: "select" },
+      options: ["start", "center", "end", "stretch"],
+      description: "Alignment of items within their rows",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof Grid>;
+
+const services = [
+  { name: "API Gateway", status: "Healthy", variant: "success" },
+  { name: "Auth Service", status: "Healthy", variant: "success" },
+  { name: "Billing", status: "Degraded", variant: "warning" },
+  { name: "Search", status: "Healthy", variant: "success" },
+  { name: "Notifications", status: "Down", variant: "danger" },
+  { name: "Storage", status: "Healthy", variant: "success" },
+] as const;
+
+function ServiceCards() {
+  return (
+    <>
+      {services.map((service) => (
+        <Card key={service.name} padding="md" shadow="sm">
+          <Stack gap="xs">
+            <Text weight="semibold">{service.name}</Text>
+            <Badge variant={service.variant} size="sm">
+              {service.status}
+            </Badge>
+          </Stack>
+        </Card>
+      ))}
+    </>
+  );
+}
+
+export const Default: Story = {
+  args: {
+    gap: "md",
+    columns: 3,
+  },
+  render: (args) => (
+    <Grid {...args}>
+      <ServiceCards />
+    </Grid>
+  ),
+};
+
+export const AutoFit: Story = {
+  render: () => (
+    <Grid minChildWidth="12rem" gap="lg">
+      <ServiceCards />
+    </Grid>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "Fits as many columns as there is room for, each at least `12rem` wide, without any breakpoints. Resize the viewport to see cards reflow.",
+      },
+    },
+  },
+};
+
+export const Spans: Story = {
+  render: () => (
+    <Grid columns={4} gap="md">
+      <GridItem colSpan="full">
+        <Card padding="md" shadow="sm">
+          <Heading level={3} size="sm">
+            Full row
+          </Heading>
+        </Card>
+      </GridItem>
+      <GridItem colSpan={3} rowSpan={2}>
+        <Card padding="md" shadow="sm" style={{ height: "100%" }}>
+          <Text>Three columns, two rows</Text>
+        </Card>
+      </GridItem>
+      <Card padding="md" shadow="sm">
+        <Text>One</Text>
+      </Card>
+      <Card padding="md" shadow="sm">
+        <Text>One</Text>
+      </Card>
+      <GridItem colSpan={2}>
+        <Card padding="md" shadow="sm">
+          <Text>Two columns</Text>
+        </Card>
+      </GridItem>
+      <GridItem colSpan={2}>
+        <Card padding="md" shadow="sm">
+          <Text>Two columns</Text>
+        </Card>
+      </GridItem>
+    </Grid>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "GridItem spans several columns or rows of a four-column grid; plain children take one cell each.",
+      },
+    },
+  },
+};
+
+export const Areas: Story = {
+  render: () => (
+    <Grid
+      gap="md"
+      columns={{ base: 1, md: 3 }}
+      areas={{
+        base: ["header", "main", "sidebar", "footer"],
+        md: [
+          "header header header",
+          "main main sidebar",
+          "footer footer footer",
+        ],
+      }}
+    >
+      <GridItem area="header">
+        <Card padding="md" shadow="sm">
+          <Heading level={3} size="sm">
+            Header
+          </Heading>
+        </Card>
+      </GridItem>
+      <GridItem area="main">
+        <Card padding="lg" shadow="sm">
+          <Text>Main content</Text>
+        </Card>
+      </GridItem>
+      <GridItem area="sidebar">
+        <Card padding="md" shadow="sm">
+          <Text>Sidebar</Text>
+        </Card>
+      </GridItem>
+      <GridItem area="footer">
+        <Card padding="md" shadow="sm">
+          <Text size="sm" color="subdued">
+            Footer
+          </Text>
+        </Card>
+      </GridItem>
+    </Grid>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "A page shell from named areas: one column on narrow viewports, with the sidebar beside the main content from the `md` breakpoint up.",
+      },
+    },
+  },
+};
+
+export const Responsive: Story = {
+  render: () => (
+    <Grid columns={{ base: 1, sm: 2, lg: 3 }} gap={{ base: "sm", md: "lg" }}>
+      <ServiceCards />
+    </Grid>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "One column on narrow viewports, two from the `sm` breakpoint and three from `lg`, with the gap growing from `md` up.",
+      },
+    },
+  },
+};
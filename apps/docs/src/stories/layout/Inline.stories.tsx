@@ -1,5 +1,5 @@
 import type { Meta, StoryObj } from "@storybook/react";
-import { Inline, Card, Text, Button, Badge } from "@rockminster/react";
+import { Inline, Card, Text, Button, Badge, Heading } from "@rockminster/react";
 
 const meta: Meta<typeof Inline> = {
   title: "Layout/Inline",
@@ -22,6 +22,7 @@ through composition rather than creating bespoke components.
 - **Justification control**: Multiple justify-content options
 - **Alignment control**: Cross-axis alignment options
 - **Wrapping support**: Optional flex-wrap behavior
+- **Responsive props**: \`gap\`, \`justify\`, \`align\` and \`direction\` take one value per breakpoint, e.g. \`direction={{ base: "column", md: "row" }}\`
 - **Semantic HTML**: Customizable element type
 - **Full composability**: Works with any child components
 
@@ -57,6 +58,11 @@ and any other horizontal layout needs without creating specialized components.
       options: ["start", "center", "end", "baseline", "stretch"],
       description: "Alignment of items along the cross axis",
     },
+    direction: {
+      control: { type: "select" },
+      options: ["row", "column"],
+      description: "Layout direction",
+    },
     wrap: {
       control: { type: "boolean" },
       description: "Whether items should wrap when they overflow",
@@ -283,3 +289,34 @@ export const MixedContent: Story = {
     },
   },
 };
+
+export const Responsive: Story = {
+  render: () => (
+    <Inline
+      direction={{ base: "column", md: "row" }}
+      justify={{ base: "start", md: "space-between" }}
+      align={{ base: "stretch", md: "center" }}
+      gap={{ base: "sm", md: "md" }}
+    >
+      <Heading level={3} size="sm">
+        Deployments
+      </Heading>
+      <Inline gap="sm">
+        <Button variant="secondary" size="sm">
+          Filter
+        </Button>
+        <Button variant="primary" size="sm">
+          Deploy
+        </Button>
+      </Inline>
+    </Inline>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "A toolbar header that stacks its title above the actions on narrow viewports and spreads them across one row from the `md` breakpoint up.",
+      },
+    },
+  },
+};
@@ -19,6 +19,7 @@ and provides consistent vertical spacing without being tied to specific use case
 ## Features
 - **Flexible spacing**: Six spacing levels using design tokens
 - **Alignment control**: Multiple alignment options
+- **Responsive props**: \`gap\`, \`align\` and \`direction\` take one value per breakpoint, e.g. \`direction={{ base: "column", lg: "row" }}\`
 - **Semantic HTML**: Customizable element type with proper ARIA support  
 - **Wrapping support**: Optional flex-wrap behavior
 - **Full composability**: Works with any child components
@@ -43,6 +44,11 @@ for specific scenarios. This enables maximum reusability and consistency across
       options: ["start", "center", "end", "stretch"],
       description: "Alignment of items along the cross axis",
     },
+    direction: {
+      control: { type: "select" },
+      options: ["column", "row"],
+      description: "Layout direction",
+    },
     wrap: {
       control: { type: "boolean" },
       description: "Whether items should wrap when they overflow",
@@ -182,3 +188,31 @@ export const AlignmentOptions: Story = {
     },
   },
 };
+
+export const Responsive: Story = {
+  render: () => (
+    <Stack
+      direction={{ base: "column", lg: "row" }}
+      gap={{ base: "sm", md: "lg" }}
+      align={{ base: "stretch", lg: "start" }}
+    >
+      <Card padding={{ base: "sm", md: "md" }}>
+        <Text>Requests</Text>
+      </Card>
+      <Card padding={{ base: "sm", md: "md" }}>
+        <Text>Latency</Text>
+      </Card>
+      <Card padding={{ base: "sm", md: "md" }}>
+        <Text>Errors</Text>
+      </Card>
+    </Stack>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "Responsive values apply from their breakpoint up: the cards stack below the `lg` breakpoint and sit in a row from it, and the gap and card padding grow from `md`. Resize the viewport to see them change.",
+      },
+    },
+  },
+};
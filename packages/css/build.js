@@ -0,0 +1,96 @@
+/**
+ * Builds the stylesheets of `@rockminster/css` into `dist/`:
+ *
+ *   node build.js
+ *
+ * - `index.css` — everything, in the `freeui.*` cascade layers
+ * - `no-reset.css` — everything but the global reset
+ * - `reset.css`, `tokens.css`, `utilities.css` — one layer each
+ * - `<component>.css` — one component and its dependencies from
+ *   `components.js`, in `freeui.components`
+ *
+ * Every file starts with the same `@layer` order statement, so the layers
+ * stack the same way whichever files are loaded and in which order.
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const postcss = require("postcss");
+const { plugins } = require("./postcss.config");
+const { components } = require("./components");
+
+const srcDir = path.join(__dirname, "src");
+const distDir = path.join(__dirname, "dist");
+
+const layerOrder =
+  "@layer freeui.reset, freeui.tokens, freeui.components, freeui.utilities;";
+
+/** Component names in bundle order: dependencies first, each only once */
+function withDependencies(name, seen = new Set()) {
+  const component = components.find((entry) => entry.name === name);
+  if (!component) {
+    throw new Error(`Unknown component stylesheet "${name}"`);
+  }
+  if (seen.has(name)) return [];
+  seen.add(name);
+  return [
+    ...component.dependencies.flatMap((dependency) =>
+      withDependencies(dependency, seen)
+    ),
+    name,
+  ];
+}
+
+/** `[file, css]` for every stylesheet written from a generated entry */
+function generatedEntries() {
+  const entry = (imports) =>
+    [
+      layerOrder,
+      // Compiled away; lets any file use the breakpoint and container custom media
+      '@import "generated/custom-media.css";',
+      '@import "generated/custom-containers.css";',
+      ...imports,
+      "",
+    ].join("\n");
+
+  return [
+    ["reset.css", entry(['@import "reset.css" layer(freeui.reset);'])],
+    ["tokens.css", entry(['@import "tokens.css" layer(freeui.tokens);'])],
+    [
+      "utilities.css",
+      entry(['@import "utilities.css" layer(freeui.utilities);']),
+    ],
+    ...components.map(({ name }) => [
+      `${name}.css`,
+      entry(
+        withDependencies(name).map(
+          (file) => `@import "components/${file}.css" layer(freeui.components);`
+        )
+      ),
+    ]),
+  ];
+}
+
+async function writeStylesheet(file, css, from) {
+  const to = path.join(distDir, file);
+  const result = await postcss(plugins).process(css, { from, to });
+  fs.writeFileSync(to, result.css);
+}
+
+async function build() {
+  fs.mkdirSync(distDir, { recursive: true });
+
+  for (const file of ["index.css", "no-reset.css"]) {
+    const from = path.join(srcDir, file);
+    await writeStylesheet(file, fs.readFileSync(from, "utf8"), from);
+  }
+  for (const [file, css] of generatedEntries()) {
+    // Resolve the entry's imports from src/, where it would live
+    await writeStylesheet(file, css, path.join(srcDir, `entry-${file}`));
+  }
+}
+
+build().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,49 @@
+/**
+ * Per-component stylesheets of `@rockminster/css`.
+ *
+ * Every `src/components/<name>.css` is also built on its own as
+ * `dist/<name>.css` (`@rockminster/css/<name>.css`), bundled with the
+ * stylesheets listed in its `dependencies`, so importing one file is enough
+ * for one component. Component stylesheets read the design tokens, so
+ * `tokens.css` (or the full `index.css`) has to be loaded too. The order here
+ * is the order of the full bundle, `src/components.css`.
+ */
+
+const interactive = ["focus"];
+
+const components = [
+  { name: "focus", dependencies: [] },
+  { name: "button", dependencies: interactive },
+  { name: "input", dependencies: interactive },
+  { name: "card", dependencies: [] },
+  { name: "version-list", dependencies: interactive },
+  { name: "version-viewer", dependencies: [] },
+  { name: "version-diff", dependencies: [] },
+  { name: "timeline", dependencies: [] },
+  { name: "filter-panel", dependencies: interactive },
+  { name: "export-menu", dependencies: interactive },
+  { name: "activity-list", dependencies: interactive },
+  { name: "stack", dependencies: [] },
+  { name: "inline", dependencies: [] },
+  { name: "grid", dependencies: [] },
+  { name: "separator", dependencies: [] },
+  { name: "text", dependencies: [] },
+  { name: "heading", dependencies: [] },
+  { name: "badge", dependencies: [] },
+  { name: "progress", dependencies: [] },
+  { name: "status-indicator", dependencies: [] },
+  { name: "checkbox", dependencies: interactive },
+  { name: "slider", dependencies: interactive },
+  { name: "diff", dependencies: [] },
+  { name: "switch", dependencies: interactive },
+  { name: "toggle-group", dependencies: interactive },
+  { name: "radio-button", dependencies: interactive },
+  { name: "select", dependencies: interactive },
+  { name: "alert", dependencies: interactive },
+  { name: "density", dependencies: [] },
+  { name: "direction", dependencies: [] },
+];
+
+module.exports = {
+  components,
+};
@@ -0,0 +1,36 @@
+/**
+ * PostCSS plugin that compiles the container size custom media in
+ * `@container` queries, which `postcss-custom-media` only does for `@media`:
+ *
+ *   @container (--freeui-container-sm) { … }
+ *
+ * becomes `@container (width >= 24rem) { … }`, using the `@custom-media`
+ * rules of `generated/custom-containers.css` (from the `container.*`
+ * tokens). It runs before `postcss-custom-media`, which then removes the
+ * definitions. An unknown name fails the build.
+ */
+
+function containerQueries() {
+  return {
+    postcssPlugin: "freeui-container-queries",
+    Once(root) {
+      const queries = new Map();
+      root.walkAtRules("custom-media", (rule) => {
+        const [, name, query] = /^(--[\w-]+)\s+(.+)$/.exec(rule.params) ?? [];
+        if (name) queries.set(name, query);
+      });
+      root.walkAtRules("container", (rule) => {
+        rule.params = rule.params.replace(/\((--[\w-]+)\)/g, (match, name) => {
+          if (!queries.has(name)) {
+            throw rule.error(`Unknown container size ${name}`);
+          }
+          return queries.get(name);
+        });
+      });
+    },
+  };
+}
+
+containerQueries.postcss = true;
+
+module.exports = containerQueries;
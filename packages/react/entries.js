@@ -0,0 +1,58 @@
+/**
+ * Subpath entry points of `@rockminster/react`, e.g.
+ * `@rockminster/react/button`, so an app that uses a few components doesn't
+ * bundle the rest.
+ *
+ * `css` lists the `@rockminster/css/<name>.css` stylesheets the entry's
+ * components need, besides `@rockminster/css/tokens.css`. The bundle-size
+ * report (`pnpm size`) measures each entry together with those stylesheets.
+ */
+
+const entries = [
+  { name: "button", source: "src/Button.tsx", css: ["button"] },
+  { name: "input", source: "src/Input.tsx", css: ["input"] },
+  { name: "card", source: "src/Card.tsx", css: ["card"] },
+  { name: "checkbox", source: "src/form/Checkbox.tsx", css: ["checkbox"] },
+  {
+    name: "radio-button",
+    source: "src/form/RadioButton.tsx",
+    css: ["radio-button"],
+  },
+  { name: "select", source: "src/form/Select.tsx", css: ["select"] },
+  { name: "slider", source: "src/form/Slider.tsx", css: ["slider"] },
+  { name: "switch", source: "src/form/Switch.tsx", css: ["switch"] },
+  {
+    name: "toggle-group",
+    source: "src/form/ToggleGroup.tsx",
+    css: ["toggle-group"],
+  },
+  { name: "stack", source: "src/layout/Stack.tsx", css: ["stack"] },
+  { name: "inline", source: "src/layout/Inline.tsx", css: ["inline"] },
+  { name: "grid", source: "src/layout/Grid.tsx", css: ["grid"] },
+  {
+    name: "separator",
+    source: "src/layout/Separator.tsx",
+    css: ["separator"],
+  },
+  { name: "timeline", source: "src/layout/Timeline.tsx", css: ["timeline"] },
+  { name: "alert", source: "src/display/Alert.tsx", css: ["alert"] },
+  { name: "badge", source: "src/display/Badge.tsx", css: ["badge"] },
+  { name: "diff", source: "src/display/Diff.tsx", css: ["diff"] },
+  { name: "heading", source: "src/display/Heading.tsx", css: ["heading"] },
+  { name: "progress", source: "src/display/Progress.tsx", css: ["progress"] },
+  {
+    name: "status-indicator",
+    source: "src/display/StatusIndicator.tsx",
+    css: ["status-indicator"],
+  },
+  { name: "text", source: "src/display/Text.tsx", css: ["text"] },
+  {
+    name: "theme",
+    source: "src/theme/index.ts",
+    css: ["density", "direction"],
+  },
+];
+
+module.exports = {
+  entries,
+};
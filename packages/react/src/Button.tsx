@@ -30,7 +30,8 @@ export interface ButtonProps
   fullWidth?: boolean;
 
   /**
-   * Loading state for the button
+   * Loading state for the button. The spinner holds still under reduced
+   * motion
    */
   loading?: boolean;
 
@@ -1,5 +1,6 @@
 import React from "react";
 import { clsx } from "clsx";
+import { responsiveClasses, type ResponsiveValue } from "./layout/responsive";
 
 export interface CardProps extends React.HTMLAttributes<HTMLDivElement> {
   /**
@@ -8,9 +9,16 @@ export interface CardProps extends React.HTMLAttributes<HTMLDivElement> {
   shadow?: "none" | "sm" | "md";
 
   /**
-   * The padding level for the card
+   * The padding level for the card, optionally per breakpoint
    */
-  padding?: "none" | "sm" | "md" | "lg";
+  padding?: ResponsiveValue<"none" | "sm" | "md" | "lg">;
+
+  /**
+   * Make the card a size container named `freeui-card`, so the `@sm`–`@xl`
+   * responsive props of the layouts inside it, and components such as
+   * Progress, follow the card's width rather than the viewport
+   */
+  container?: boolean;
 }
 
 /**
@@ -18,17 +26,29 @@ export interface CardProps extends React.HTMLAttributes<HTMLDivElement> {
  *
  * Features:
  * - Surface background using design tokens
- * - Configurable padding levels
+ * - Configurable padding levels, per breakpoint if needed
+ * - Optional size container for container-query driven content
  * - Optional shadow levels (sm, md)
  * - Fully composable with children
  * - Accessible by default
  */
 export const Card = React.forwardRef<HTMLDivElement, CardProps>(
-  ({ children, shadow = "sm", padding = "md", className, ...props }, ref) => {
+  (
+    {
+      children,
+      shadow = "sm",
+      padding = "md",
+      container = false,
+      className,
+      ...props
+    },
+    ref
+  ) => {
     const cardClass = clsx(
       "freeui-card",
       `freeui-card--shadow-${shadow}`,
-      `freeui-card--padding-${padding}`,
+      responsiveClasses("card", "padding", padding, "md"),
+      { "freeui-card--container": container },
       className
     );
 
@@ -26,6 +26,12 @@ export interface HeadingProps extends React.HTMLAttributes<HTMLHeadingElement> {
    * Whether text should be truncated with ellipsis
    */
   truncate?: boolean;
+
+  /**
+   * Whether the size scales with the viewport width, down to the next size
+   * below it on narrow screens (`sm` and up)
+   */
+  fluid?: boolean;
 }
 
 /**
@@ -35,6 +41,7 @@ export interface HeadingProps extends React.HTMLAttributes<HTMLHeadingElement> {
  * - Semantic heading levels (h1-h6)
  * - Visual size independent of semantic level
  * - Design system typography scale
+ * - Optional fluid sizes that shrink on narrow viewports
  * - Semantic color variants
  * - Text truncation support
  * - Accessibility-first approach
@@ -48,6 +55,7 @@ export const Heading = React.forwardRef<HTMLHeadingElement, HeadingProps>(
       weight = "semibold",
       color = "default",
       truncate = false,
+      fluid = false,
       className,
       ...props
     },
@@ -60,6 +68,7 @@ export const Heading = React.forwardRef<HTMLHeadingElement, HeadingProps>(
       `freeui-heading--color-${color}`,
       {
         "freeui-heading--truncate": truncate,
+        "freeui-heading--fluid": fluid,
       },
       className
     );
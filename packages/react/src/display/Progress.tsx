@@ -33,7 +33,8 @@ export interface ProgressProps extends React.HTMLAttributes<HTMLDivElement> {
   label?: string;
 
   /**
-   * Whether the progress is indeterminate (loading)
+   * Whether the progress is indeterminate (loading). The bar sweeps across
+   * the track, or stays a full striped bar under reduced motion
    */
   indeterminate?: boolean;
 }
@@ -47,6 +48,7 @@ export interface ProgressProps extends React.HTMLAttributes<HTMLDivElement> {
  * - Support for determinate and indeterminate states
  * - Customizable labels and value display
  * - Compositional design for use in dashboards
+ * - One-line metric rows inside a `<Card container>` of the `sm` size and up
  */
 export const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
   (
@@ -100,9 +102,7 @@ export const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
         >
           <div
             className="freeui-progress-bar"
-            style={{
-              width: `${percentage}%`,
-            }}
+            style={indeterminate ? undefined : { width: `${percentage}%` }}
           />
         </div>
         {showValue && !label && !indeterminate && (
@@ -14,7 +14,8 @@ export interface StatusIndicatorProps
   size?: "sm" | "md" | "lg";
 
   /**
-   * Whether to show as a pulse animation for loading/active states
+   * Whether to show as a pulse animation for loading/active states. Under
+   * reduced motion the pulse becomes a steady halo
    */
   pulse?: boolean;
 
@@ -22,6 +22,11 @@ export interface TextProps extends React.HTMLAttributes<HTMLElement> {
    */
   truncate?: boolean;
 
+  /**
+   * Whether the size scales with the viewport width (`lg` and `xl`)
+   */
+  fluid?: boolean;
+
   /**
    * Custom element type to render
    */
@@ -33,6 +38,7 @@ export interface TextProps extends React.HTMLAttributes<HTMLElement> {
  *
  * Features:
  * - Design system typography scale
+ * - Optional fluid sizes that shrink on narrow viewports
  * - Semantic color variants
  * - Text truncation support
  * - Flexible HTML element rendering
@@ -46,6 +52,7 @@ export const Text = React.forwardRef<HTMLElement, TextProps>(
       weight = "normal",
       color = "default",
       truncate = false,
+      fluid = false,
       as = "span",
       className,
       ...props
@@ -59,6 +66,7 @@ export const Text = React.forwardRef<HTMLElement, TextProps>(
       `freeui-text--color-${color}`,
       {
         "freeui-text--truncate": truncate,
+        "freeui-text--fluid": fluid,
       },
       className
     );
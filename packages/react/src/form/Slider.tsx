@@ -38,6 +38,8 @@ export const Slider = React.forwardRef<HTMLInputElement, SliderProps>(
       description,
       showValue = false,
       className,
+      style,
+      onChange,
       ...props
     },
     ref
@@ -45,6 +47,23 @@ export const Slider = React.forwardRef<HTMLInputElement, SliderProps>(
     const generatedId = React.useId();
     const sliderId = props.id || `slider-${generatedId}`;
 
+    // Uncontrolled sliders track their own value so the fill can follow it
+    const [uncontrolledValue, setUncontrolledValue] = React.useState(
+      props.defaultValue
+    );
+    const min = Number(props.min ?? 0);
+    const max = Number(props.max ?? 100);
+    const current = Number(props.value ?? uncontrolledValue ?? (min + max) / 2);
+    const fill =
+      max > min
+        ? Math.min(100, Math.max(0, ((current - min) / (max - min)) * 100))
+        : 0;
+
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+      setUncontrolledValue(event.target.value);
+      onChange?.(event);
+    };
+
     return (
       <div className={clsx("freeui-slider-wrapper", className)}>
         {label && (
@@ -67,6 +86,13 @@ export const Slider = React.forwardRef<HTMLInputElement, SliderProps>(
             "freeui-slider--error": error,
           })}
           aria-describedby={description ? `${sliderId}-description` : undefined}
+          style={
+            {
+              "--freeui-slider-fill": `${fill}%`,
+              ...style,
+            } as React.CSSProperties
+          }
+          onChange={handleChange}
           {...props}
         />
         {description && (
@@ -29,12 +29,24 @@ export type {
 } from "./form";
 
 // Layout components for composition
-export { Stack, Inline, Separator, Timeline } from "./layout";
+export {
+  Stack,
+  Inline,
+  Grid,
+  GridItem,
+  Separator,
+  Timeline,
+  useContainerSize,
+} from "./layout";
 export type {
   StackProps,
   InlineProps,
+  GridProps,
+  GridItemProps,
   SeparatorProps,
   TimelineProps,
+  ResponsiveValue,
+  ContainerSizeState,
 } from "./layout";
 
 // Display components for data presentation
@@ -57,3 +69,29 @@ export type {
   StatusIndicatorProps,
   AlertProps,
 } from "./display";
+
+// Theming
+export {
+  DensityProvider,
+  DirectionProvider,
+  ThemeProvider,
+  ThemeScope,
+  ThemeScript,
+  useDensity,
+  useDirection,
+  useReducedMotion,
+  useTheme,
+} from "./theme";
+export type {
+  DensityProviderProps,
+  Direction,
+  DirectionProviderProps,
+  ThemeProviderProps,
+  ThemeScopeProps,
+  ThemeScriptProps,
+  ThemeContextValue,
+  ThemePreference,
+  ResolvedTheme,
+  ThemeStorage,
+  ThemeAttributes,
+} from "./theme";
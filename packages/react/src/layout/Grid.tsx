@@ -0,0 +1,166 @@
+import React from "react";
+import { clsx } from "clsx";
+import {
+  responsiveClasses,
+  responsiveEntries,
+  type ResponsiveValue,
+} from "./responsive";
+
+type GridColumns = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+export interface GridProps extends React.HTMLAttributes<HTMLDivElement> {
+  /**
+   * The spacing between rows and columns, optionally per breakpoint
+   */
+  gap?: ResponsiveValue<"none" | "xs" | "sm" | "md" | "lg" | "xl">;
+
+  /**
+   * The number of equal-width columns, optionally per breakpoint, e.g.
+   * `{ base: 1, md: 2, lg: 4 }`. Ignored when `minChildWidth` is set.
+   */
+  columns?: ResponsiveValue<GridColumns>;
+
+  /**
+   * Fit as many columns as there is room for, each at least this wide
+   * (any CSS length, e.g. `"16rem"`), without breakpoints
+   */
+  minChildWidth?: string;
+
+  /**
+   * Named areas, one string per row, optionally per breakpoint, e.g.
+   * `["header header", "nav main"]`. Place children with `GridItem area`.
+   */
+  areas?: ResponsiveValue<string[]>;
+
+  /**
+   * The alignment of grid items within their rows
+   */
+  align?: "start" | "center" | "end" | "stretch";
+}
+
+export interface GridItemProps extends React.HTMLAttributes<HTMLDivElement> {
+  /**
+   * The number of columns to span, or `full` for the whole row, optionally
+   * per breakpoint
+   */
+  colSpan?: ResponsiveValue<GridColumns | "full">;
+
+  /**
+   * The number of rows to span, optionally per breakpoint
+   */
+  rowSpan?: ResponsiveValue<1 | 2 | 3 | 4 | 5 | 6>;
+
+  /**
+   * The named area of the parent `Grid` to place the item in
+   */
+  area?: string;
+}
+
+/** `["a b", "c d"]` as a `grid-template-areas` value */
+function templateAreas(rows: string[]): string {
+  return rows.map((row) => `"${row}"`).join(" ");
+}
+
+/**
+ * Grid component for two-dimensional layout of elements
+ *
+ * Features:
+ * - Gap spacing using the same design tokens as Stack and Inline
+ * - Fixed column counts or auto-fit columns from a minimum child width
+ * - Named area templates
+ * - Responsive gap, columns and areas per breakpoint or container size
+ * - Fully composable with any children, or with GridItem for spans
+ */
+export const Grid = React.forwardRef<HTMLDivElement, GridProps>(
+  (
+    {
+      children,
+      gap = "md",
+      columns,
+      minChildWidth,
+      areas,
+      align,
+      className,
+      style,
+      ...props
+    },
+    ref
+  ) => {
+    const areaEntries = areas === undefined ? [] : responsiveEntries(areas);
+
+    const gridClass = clsx(
+      "freeui-grid",
+      responsiveClasses("grid", "gap", gap, "md"),
+      minChildWidth === undefined && columns !== undefined
+        ? responsiveClasses("grid", "columns", columns)
+        : undefined,
+      areaEntries.map(([scope]) =>
+        scope === "base" ? "freeui-grid--areas" : `freeui-grid--${scope}-areas`
+      ),
+      {
+        "freeui-grid--auto-fit": minChildWidth !== undefined,
+        [`freeui-grid--align-${align}`]: align,
+      },
+      className
+    );
+
+    const gridStyle = {
+      ...(minChildWidth !== undefined && {
+        "--freeui-grid-min-child-width": minChildWidth,
+      }),
+      ...Object.fromEntries(
+        areaEntries.map(([scope, rows]) => [
+          scope === "base"
+            ? "--freeui-grid-areas"
+            : `--freeui-grid-areas-${scope}`,
+          templateAreas(rows),
+        ])
+      ),
+      ...style,
+    } as React.CSSProperties;
+
+    return (
+      <div ref={ref} className={gridClass} style={gridStyle} {...props}>
+        {children}
+      </div>
+    );
+  }
+);
+
+Grid.displayName = "Grid";
+
+/**
+ * GridItem component for a child of Grid that spans several columns or rows
+ * or sits in a named area
+ *
+ * Features:
+ * - Column spans from 1 to 12, or the full row
+ * - Row spans from 1 to 6
+ * - Responsive spans per breakpoint or container size
+ * - Placement in a named area of the parent Grid
+ */
+export const GridItem = React.forwardRef<HTMLDivElement, GridItemProps>(
+  ({ children, colSpan, rowSpan, area, className, style, ...props }, ref) => {
+    const itemClass = clsx(
+      "freeui-grid-item",
+      colSpan !== undefined &&
+        responsiveClasses("grid-item", "col-span", colSpan),
+      rowSpan !== undefined &&
+        responsiveClasses("grid-item", "row-span", rowSpan),
+      className
+    );
+
+    return (
+      <div
+        ref={ref}
+        className={itemClass}
+        style={area === undefined ? style : { gridArea: area, ...style }}
+        {...props}
+      >
+        {children}
+      </div>
+    );
+  }
+);
+
+GridItem.displayName = "GridItem";
@@ -1,27 +1,37 @@
 import React from "react";
 import { clsx } from "clsx";
+import { responsiveClasses, type ResponsiveValue } from "./responsive";
 
 export interface InlineProps extends React.HTMLAttributes<HTMLDivElement> {
   /**
-   * The spacing between inline items
+   * The spacing between inline items, optionally per breakpoint
    */
-  gap?: "none" | "xs" | "sm" | "md" | "lg" | "xl";
+  gap?: ResponsiveValue<"none" | "xs" | "sm" | "md" | "lg" | "xl">;
 
   /**
-   * The alignment of inline items along the main axis
+   * The alignment of inline items along the main axis, optionally per
+   * breakpoint
    */
-  justify?:
+  justify?: ResponsiveValue<
     | "start"
     | "center"
     | "end"
     | "space-between"
     | "space-around"
-    | "space-evenly";
+    | "space-evenly"
+  >;
 
   /**
-   * The alignment of inline items along the cross axis
+   * The alignment of inline items along the cross axis, optionally per
+   * breakpoint
    */
-  align?: "start" | "center" | "end" | "baseline" | "stretch";
+  align?: ResponsiveValue<"start" | "center" | "end" | "baseline" | "stretch">;
+
+  /**
+   * The layout direction, optionally per breakpoint, e.g.
+   * `{ base: "column", md: "row" }`
+   */
+  direction?: ResponsiveValue<"row" | "column">;
 
   /**
    * Whether to wrap items when they overflow
@@ -35,6 +45,7 @@ export interface InlineProps extends React.HTMLAttributes<HTMLDivElement> {
  * Features:
  * - Configurable spacing using design tokens
  * - Flexible alignment and justification options
+ * - Responsive gap, alignment and direction per breakpoint or container size
  * - Optional wrapping behavior
  * - Semantic HTML with proper accessibility
  * - Fully composable with any children
@@ -46,6 +57,7 @@ export const Inline = React.forwardRef<HTMLDivElement, InlineProps>(
       gap = "md",
       justify = "start",
       align = "center",
+      direction = "row",
       wrap = false,
       className,
       ...props
@@ -54,9 +66,10 @@ export const Inline = React.forwardRef<HTMLDivElement, InlineProps>(
   ) => {
     const inlineClass = clsx(
       "freeui-inline",
-      `freeui-inline--gap-${gap}`,
-      `freeui-inline--justify-${justify}`,
-      `freeui-inline--align-${align}`,
+      responsiveClasses("inline", "gap", gap, "md"),
+      responsiveClasses("inline", "justify", justify, "start"),
+      responsiveClasses("inline", "align", align, "center"),
+      responsiveClasses("inline", "direction", direction, "row"),
       {
         "freeui-inline--wrap": wrap,
       },
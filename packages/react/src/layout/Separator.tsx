@@ -1,5 +1,6 @@
 import React from "react";
 import { clsx } from "clsx";
+import { responsiveClasses, type ResponsiveValue } from "./responsive";
 
 export interface SeparatorProps extends React.HTMLAttributes<HTMLHRElement> {
   /**
@@ -8,9 +9,9 @@ export interface SeparatorProps extends React.HTMLAttributes<HTMLHRElement> {
   variant?: "solid" | "dashed" | "dotted";
 
   /**
-   * The spacing around the separator
+   * The spacing around the separator, optionally per breakpoint
    */
-  margin?: "none" | "xs" | "sm" | "md" | "lg" | "xl";
+  margin?: ResponsiveValue<"none" | "xs" | "sm" | "md" | "lg" | "xl">;
 
   /**
    * The orientation of the separator
@@ -24,7 +25,7 @@ export interface SeparatorProps extends React.HTMLAttributes<HTMLHRElement> {
  * Features:
  * - Horizontal and vertical orientations
  * - Multiple visual styles
- * - Configurable spacing using design tokens
+ * - Configurable spacing using design tokens, per breakpoint if needed
  * - Semantic HTML with ARIA support
  * - Accessible by default
  */
@@ -42,7 +43,7 @@ export const Separator = React.forwardRef<HTMLHRElement, SeparatorProps>(
     const separatorClass = clsx(
       "freeui-separator",
       `freeui-separator--${variant}`,
-      `freeui-separator--margin-${margin}`,
+      responsiveClasses("separator", "margin", margin, "md"),
       `freeui-separator--${orientation}`,
       className
     );
@@ -1,16 +1,24 @@
 import React from "react";
 import { clsx } from "clsx";
+import { responsiveClasses, type ResponsiveValue } from "./responsive";
 
 export interface StackProps extends React.HTMLAttributes<HTMLDivElement> {
   /**
-   * The spacing between stack items
+   * The spacing between stack items, optionally per breakpoint
    */
-  gap?: "none" | "xs" | "sm" | "md" | "lg" | "xl";
+  gap?: ResponsiveValue<"none" | "xs" | "sm" | "md" | "lg" | "xl">;
 
   /**
-   * The alignment of stack items along the cross axis
+   * The alignment of stack items along the cross axis, optionally per
+   * breakpoint
    */
-  align?: "start" | "center" | "end" | "stretch";
+  align?: ResponsiveValue<"start" | "center" | "end" | "stretch">;
+
+  /**
+   * The layout direction, optionally per breakpoint, e.g.
+   * `{ base: "column", lg: "row" }`
+   */
+  direction?: ResponsiveValue<"column" | "row">;
 
   /**
    * Whether to wrap items when they overflow
@@ -24,6 +32,7 @@ export interface StackProps extends React.HTMLAttributes<HTMLDivElement> {
  * Features:
  * - Configurable spacing using design tokens
  * - Flexible alignment options
+ * - Responsive gap, alignment and direction per breakpoint or container size
  * - Optional wrapping behavior
  * - Semantic HTML with proper accessibility
  * - Fully composable with any children
@@ -34,6 +43,7 @@ export const Stack = React.forwardRef<HTMLDivElement, StackProps>(
       children,
       gap = "md",
       align = "stretch",
+      direction = "column",
       wrap = false,
       className,
       ...props
@@ -42,8 +52,9 @@ export const Stack = React.forwardRef<HTMLDivElement, StackProps>(
   ) => {
     const stackClass = clsx(
       "freeui-stack",
-      `freeui-stack--gap-${gap}`,
-      `freeui-stack--align-${align}`,
+      responsiveClasses("stack", "gap", gap, "md"),
+      responsiveClasses("stack", "align", align, "stretch"),
+      responsiveClasses("stack", "direction", direction, "column"),
       {
         "freeui-stack--wrap": wrap,
       },
@@ -4,8 +4,16 @@ export type { StackProps } from "./Stack";
 export { Inline } from "./Inline";
 export type { InlineProps } from "./Inline";
 
+export { Grid, GridItem } from "./Grid";
+export type { GridProps, GridItemProps } from "./Grid";
+
 export { Separator } from "./Separator";
 export type { SeparatorProps } from "./Separator";
 
 export { Timeline } from "./Timeline";
 export type { TimelineProps } from "./Timeline";
+
+export type { ResponsiveValue } from "./responsive";
+
+export { useContainerSize } from "./useContainerSize";
+export type { ContainerSizeState } from "./useContainerSize";
@@ -0,0 +1,63 @@
+import type { Breakpoint, ContainerSize } from "@rockminster/tokens";
+
+/**
+ * A prop value for every viewport, or one per breakpoint or container size:
+ * `{ base: "sm", md: "lg" }` is `sm` below the `md` breakpoint and `lg` from
+ * it up, and `{ base: "column", "@md": "row" }` switches to `row` once the
+ * nearest container (e.g. `<Card container>`) is `md` wide. Container sizes
+ * win over breakpoints when both apply. Without `base` the component's
+ * default applies below the first size given.
+ */
+export type ResponsiveValue<T> =
+  | T
+  | ({ base?: T } & Partial<Record<Breakpoint | `@${ContainerSize}`, T>>);
+
+/**
+ * The value for each scope of a responsive prop, `base` first: `base`, a
+ * breakpoint, or `container-<size>` for an `@<size>` key. Sizes left
+ * `undefined` are skipped, and `base` is left out when neither the value nor
+ * the fallback gives one.
+ */
+export function responsiveEntries<T>(
+  value: ResponsiveValue<T>,
+  fallback?: T
+): [string, T][] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [["base", value as T]];
+  }
+
+  const { base = fallback, ...sizes } = value as { base?: T } & Record<
+    string,
+    T | undefined
+  >;
+  return [
+    ...(base === undefined ? [] : [["base", base] as [string, T]]),
+    ...Object.entries(sizes)
+      .filter((entry): entry is [string, T] => entry[1] !== undefined)
+      .map(([size, sizeValue]): [string, T] => [
+        size.startsWith("@") ? `container-${size.slice(1)}` : size,
+        sizeValue,
+      ]),
+  ];
+}
+
+/**
+ * Class names for a responsive prop: the base
+ * `freeui-<block>--<prop>-<value>` class plus a
+ * `freeui-<block>--<breakpoint>-<prop>-<value>` class per breakpoint and a
+ * `freeui-<block>--container-<size>-<prop>-<value>` class per container
+ * size, as generated from the breakpoint and container tokens in
+ * `@rockminster/css`
+ */
+export function responsiveClasses<T extends string | number>(
+  block: string,
+  prop: string,
+  value: ResponsiveValue<T>,
+  fallback?: T
+): string[] {
+  return responsiveEntries(value, fallback).map(([scope, scopeValue]) =>
+    scope === "base"
+      ? `freeui-${block}--${prop}-${scopeValue}`
+      : `freeui-${block}--${scope}-${prop}-${scopeValue}`
+  );
+}
@@ -0,0 +1,76 @@
+import React from "react";
+import { containers, type ContainerSize } from "@rockminster/tokens";
+
+export interface ContainerSizeState<T extends Element> {
+  /** Attach to the element to measure */
+  ref: (element: T | null) => void;
+  /** Content-box width in pixels, `null` until measured */
+  width: number | null;
+  /** Content-box height in pixels, `null` until measured */
+  height: number | null;
+  /**
+   * Largest container size token the width reaches, or `base` below the
+   * smallest (and until measured)
+   */
+  size: ContainerSize | "base";
+}
+
+const containerSizes = Object.entries(containers) as [ContainerSize, string][];
+
+function toPixels(rem: string): number {
+  const rootFontSize =
+    parseFloat(getComputedStyle(document.documentElement).fontSize) || 16;
+  return parseFloat(rem) * rootFontSize;
+}
+
+function getContainerSize(width: number | null): ContainerSize | "base" {
+  if (width === null) {
+    return "base";
+  }
+  return containerSizes.reduce<ContainerSize | "base">(
+    (size, [name, minWidth]) => (width >= toPixels(minWidth) ? name : size),
+    "base"
+  );
+}
+
+/**
+ * Measure an element and match its width against the container size tokens,
+ * the same sizes the `@sm`–`@xl` responsive props use. Use it to pick a
+ * variant in JavaScript where container queries can't reach, e.g. how many
+ * chart series or table columns a widget has room for. Updates on resize
+ * through `ResizeObserver` and stays `base` during server rendering.
+ *
+ * @example
+ * const { ref, size } = useContainerSize<HTMLDivElement>();
+ * <Card ref={ref}>{size === "base" ? <Sparkline /> : <Chart />}</Card>;
+ */
+export function useContainerSize<
+  T extends Element = HTMLElement,
+>(): ContainerSizeState<T> {
+  const [element, setElement] = React.useState<T | null>(null);
+  const [box, setBox] = React.useState<{
+    width: number | null;
+    height: number | null;
+  }>({ width: null, height: null });
+
+  React.useEffect(() => {
+    if (!element || typeof ResizeObserver === "undefined") {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return {
+    ref: setElement,
+    width: box.width,
+    height: box.height,
+    size: getContainerSize(box.width),
+  };
+}
@@ -0,0 +1,49 @@
+import React from "react";
+import { clsx } from "clsx";
+import type { Density } from "@rockminster/tokens";
+
+export interface DensityProviderProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  /**
+   * Density applied to everything inside the provider
+   */
+  density: Density;
+}
+
+const DensityContext = React.createContext<Density>("comfortable");
+
+/**
+ * DensityProvider sets the spacing density for everything inside it through
+ * the `data-density` attribute
+ *
+ * Features:
+ * - `compact`, `comfortable` (the default) or `spacious`
+ * - Rescales control heights, paddings and font sizes, Stack and Inline
+ *   gaps and Card padding through the density tokens
+ * - Nests: an inner provider overrides the outer density for its subtree
+ */
+export const DensityProvider = React.forwardRef<
+  HTMLDivElement,
+  DensityProviderProps
+>(({ density, className, children, ...props }, ref) => (
+  <DensityContext.Provider value={density}>
+    <div
+      ref={ref}
+      className={clsx("freeui-density", className)}
+      data-density={density}
+      {...props}
+    >
+      {children}
+    </div>
+  </DensityContext.Provider>
+));
+
+DensityProvider.displayName = "DensityProvider";
+
+/**
+ * Read the density of the nearest `DensityProvider`, or `comfortable`
+ * outside of one
+ */
+export function useDensity(): Density {
+  return React.useContext(DensityContext);
+}
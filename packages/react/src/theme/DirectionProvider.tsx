@@ -0,0 +1,54 @@
+import React from "react";
+import { clsx } from "clsx";
+
+/**
+ * Reading direction of a subtree
+ */
+export type Direction = "ltr" | "rtl";
+
+export interface DirectionProviderProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  /**
+   * Direction applied to everything inside the provider
+   */
+  dir: Direction;
+}
+
+const DirectionContext = React.createContext<Direction>("ltr");
+
+/**
+ * DirectionProvider sets the reading direction for everything inside it
+ * through the `dir` attribute
+ *
+ * Features:
+ * - `ltr` (the default) or `rtl`
+ * - Component styles use logical properties and `:dir()`, so they mirror
+ *   without extra classes
+ * - `useDirection` exposes the direction to code that computes positions
+ * - Nests: an inner provider overrides the outer direction for its subtree
+ */
+export const DirectionProvider = React.forwardRef<
+  HTMLDivElement,
+  DirectionProviderProps
+>(({ dir, className, children, ...props }, ref) => (
+  <DirectionContext.Provider value={dir}>
+    <div
+      ref={ref}
+      className={clsx("freeui-direction", className)}
+      dir={dir}
+      {...props}
+    >
+      {children}
+    </div>
+  </DirectionContext.Provider>
+));
+
+DirectionProvider.displayName = "DirectionProvider";
+
+/**
+ * Read the direction of the nearest `DirectionProvider`, or `ltr` outside
+ * of one
+ */
+export function useDirection(): Direction {
+  return React.useContext(DirectionContext);
+}
@@ -0,0 +1,216 @@
+import React from "react";
+import type { ThemeName } from "@rockminster/tokens";
+
+/**
+ * Theme chosen by the user; `system` follows `prefers-color-scheme`
+ */
+export type ThemePreference = "light" | "dark" | "system";
+
+/**
+ * Theme actually applied once `system` is resolved
+ */
+export type ResolvedTheme = "light" | "dark";
+
+/**
+ * Where the chosen theme is persisted. `localStorage` and `sessionStorage`
+ * fit as they are; wrap cookies or a user-settings API in the same shape.
+ */
+export interface ThemeStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * `data-theme` values used for each resolved theme, e.g. a brand's
+ * `{ light: "acme-light", dark: "acme-dark" }`
+ */
+export type ThemeAttributes = Record<ResolvedTheme, ThemeName>;
+
+export interface ThemeProviderProps {
+  children: React.ReactNode;
+
+  /**
+   * Theme used until the user picks one
+   */
+  defaultTheme?: ThemePreference;
+
+  /**
+   * Storage for the user's choice. Defaults to `localStorage`; pass `null`
+   * to keep the choice in memory only
+   */
+  storage?: ThemeStorage | null;
+
+  /**
+   * Storage key for the user's choice
+   */
+  storageKey?: string;
+
+  /**
+   * `data-theme` values for the light and dark themes
+   */
+  themes?: Partial<ThemeAttributes>;
+}
+
+export interface ThemeContextValue {
+  /** The user's choice, possibly `system` */
+  theme: ThemePreference;
+  /** The theme in effect */
+  resolvedTheme: ResolvedTheme;
+  /** Change and persist the user's choice */
+  setTheme: (theme: ThemePreference) => void;
+}
+
+export const defaultThemeStorageKey = "freeui-theme";
+
+export const defaultThemeAttributes: ThemeAttributes = {
+  light: "light",
+  dark: "dark",
+};
+
+const darkSchemeQuery = "(prefers-color-scheme: dark)";
+
+/**
+ * `useLayoutEffect` in the browser, so the stored theme is read before
+ * paint; `useEffect` on the server, where neither runs
+ */
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? React.useLayoutEffect : React.useEffect;
+
+const ThemeContext = React.createContext<ThemeContextValue | undefined>(
+  undefined
+);
+
+function isThemePreference(value: unknown): value is ThemePreference {
+  return value === "light" || value === "dark" || value === "system";
+}
+
+function getSystemTheme(): ResolvedTheme {
+  return typeof window !== "undefined" &&
+    window.matchMedia?.(darkSchemeQuery).matches
+    ? "dark"
+    : "light";
+}
+
+function getDefaultStorage(): ThemeStorage | null {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    // Storage access throws when cookies are blocked
+    return null;
+  }
+}
+
+function readTheme(
+  storage: ThemeStorage | null,
+  storageKey: string,
+  defaultTheme: ThemePreference
+): ThemePreference {
+  try {
+    const stored = storage?.getItem(storageKey);
+    return isThemePreference(stored) ? stored : defaultTheme;
+  } catch {
+    return defaultTheme;
+  }
+}
+
+/**
+ * ThemeProvider applies the light or dark theme to the document through its
+ * `data-theme` attribute
+ *
+ * Features:
+ * - `light`, `dark` or `system`, which tracks `prefers-color-scheme` live
+ * - Persists the choice to a pluggable storage (`localStorage` by default)
+ * - Sets `color-scheme` so native controls and scrollbars match
+ * - Pair with `ThemeScript` to apply the stored theme before first paint
+ * - Renders `defaultTheme` on the server and during hydration, then picks
+ *   up the stored choice and system theme, so markup always matches
+ */
+export function ThemeProvider({
+  children,
+  defaultTheme = "system",
+  storage: storageProp,
+  storageKey = defaultThemeStorageKey,
+  themes,
+}: ThemeProviderProps) {
+  const storage = storageProp === undefined ? getDefaultStorage() : storageProp;
+
+  // Storage and `prefers-color-scheme` are only read once mounted: reading
+  // them during the first render would make it differ from the server's
+  const [storedTheme, setThemeState] = React.useState<ThemePreference>();
+  const [systemTheme, setSystemTheme] = React.useState<ResolvedTheme>("light");
+
+  useIsomorphicLayoutEffect(() => {
+    setThemeState(
+      (current) => current ?? readTheme(storage, storageKey, defaultTheme)
+    );
+  }, [storage, storageKey, defaultTheme]);
+
+  useIsomorphicLayoutEffect(() => {
+    setSystemTheme(getSystemTheme());
+    if (!window.matchMedia) {
+      return;
+    }
+    const query = window.matchMedia(darkSchemeQuery);
+    const handleChange = () => setSystemTheme(query.matches ? "dark" : "light");
+
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
+
+  const theme = storedTheme ?? defaultTheme;
+  const resolvedTheme = theme === "system" ? systemTheme : theme;
+  const attribute = { ...defaultThemeAttributes, ...themes }[resolvedTheme];
+  const mounted = storedTheme !== undefined;
+
+  React.useEffect(() => {
+    // Leave the attribute `ThemeScript` set until the stored theme is known
+    if (!mounted) {
+      return;
+    }
+    const root = document.documentElement;
+    root.setAttribute("data-theme", attribute);
+    root.style.colorScheme = resolvedTheme;
+  }, [mounted, attribute, resolvedTheme]);
+
+  const setTheme = React.useCallback(
+    (nextTheme: ThemePreference) => {
+      setThemeState(nextTheme);
+      try {
+        storage?.setItem(storageKey, nextTheme);
+      } catch {
+        // The choice still applies for this session
+      }
+    },
+    [storage, storageKey]
+  );
+
+  const value = React.useMemo(
+    () => ({ theme, resolvedTheme, setTheme }),
+    [theme, resolvedTheme, setTheme]
+  );
+
+  return (
+    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+  );
+}
+
+ThemeProvider.displayName = "ThemeProvider";
+
+/**
+ * The theme in effect under the nearest `ThemeProvider`, or `undefined`
+ * outside one
+ */
+export function useResolvedTheme(): ResolvedTheme | undefined {
+  return React.useContext(ThemeContext)?.resolvedTheme;
+}
+
+/**
+ * Read and change the theme of the nearest `ThemeProvider`
+ */
+export function useTheme(): ThemeContextValue {
+  const context = React.useContext(ThemeContext);
+  if (!context) {
+    throw new Error("useTheme must be used within a ThemeProvider");
+  }
+  return context;
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import { clsx } from "clsx";
+import {
+  toCssVariables,
+  toTokenOverrides,
+  type Theme,
+  type TokenOverrides,
+} from "@rockminster/tokens";
+import { useResolvedTheme, type ResolvedTheme } from "./ThemeProvider";
+
+/**
+ * Overrides are often tenant data, so a bad key must not throw during
+ * render and unmount the subtree
+ */
+function warnUnknownToken(path: string) {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(`ThemeScope: skipping unknown token "${path}"`);
+  }
+}
+
+export interface ThemeScopeProps extends React.HTMLAttributes<HTMLDivElement> {
+  /**
+   * Token values to override inside the scope, keyed like the token
+   * sources, e.g. `{ color: { brand: { 500: "#7c3aed" } } }`. Applied on
+   * top of `theme`. Keys that are not tokens are skipped, with a warning
+   * outside production builds.
+   */
+  tokens?: TokenOverrides;
+
+  /**
+   * Light and dark palettes from `createTheme()`; the variant matching the
+   * nearest `ThemeProvider` applies
+   */
+  theme?: Theme;
+
+  /**
+   * Variant of `theme` to apply instead of the `ThemeProvider`'s. Outside a
+   * provider the light variant applies unless this is set.
+   */
+  variant?: ResolvedTheme;
+}
+
+/**
+ * ThemeScope overrides design tokens for everything inside it at runtime,
+ * without rebuilding the CSS
+ *
+ * Features:
+ * - Sets the overrides as scoped `--freeui-*` custom properties
+ * - Takes a `createTheme()` result and follows the light or dark theme
+ * - Semantic aliases (`intent-accent-solid`, `text-accent`, ...) follow the
+ *   overridden primitives, so components pick up the new palette
+ * - Nests: inner scopes inherit the outer overrides and add their own
+ * - Token paths are type-checked against the token sources
+ */
+export const ThemeScope = React.forwardRef<HTMLDivElement, ThemeScopeProps>(
+  ({ tokens, theme, variant, className, style, children, ...props }, ref) => {
+    const resolvedTheme = useResolvedTheme();
+    const activeVariant = variant ?? resolvedTheme ?? "light";
+
+    const variables = React.useMemo(
+      () => ({
+        ...(theme &&
+          toCssVariables(
+            toTokenOverrides(theme[activeVariant]),
+            warnUnknownToken
+          )),
+        ...(tokens && toCssVariables(tokens, warnUnknownToken)),
+      }),
+      [theme, activeVariant, tokens]
+    );
+
+    return (
+      <div
+        ref={ref}
+        className={clsx("freeui-theme-scope", className)}
+        style={{ ...variables, ...style }}
+        {...props}
+      >
+        {children}
+      </div>
+    );
+  }
+);
+
+ThemeScope.displayName = "ThemeScope";
@@ -0,0 +1,77 @@
+import React from "react";
+import {
+  defaultThemeAttributes,
+  defaultThemeStorageKey,
+  type ThemeAttributes,
+  type ThemePreference,
+} from "./ThemeProvider";
+
+export interface ThemeScriptProps {
+  /**
+   * Theme used until the user picks one; match the `ThemeProvider`
+   */
+  defaultTheme?: ThemePreference;
+
+  /**
+   * Web Storage the `ThemeProvider` persists to
+   */
+  storage?: "localStorage" | "sessionStorage";
+
+  /**
+   * Storage key for the user's choice; match the `ThemeProvider`
+   */
+  storageKey?: string;
+
+  /**
+   * `data-theme` values for the light and dark themes; match the
+   * `ThemeProvider`
+   */
+  themes?: Partial<ThemeAttributes>;
+
+  /**
+   * Nonce for a Content Security Policy that restricts inline scripts
+   */
+  nonce?: string;
+}
+
+/** Serialize for an inline script; `<` is escaped so `</script>` can't end it */
+function toScriptLiteral(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+/**
+ * ThemeScript applies the stored theme before the page is painted, so
+ * server-rendered pages don't flash the wrong theme while React hydrates
+ *
+ * Render it in `<head>`, ahead of the stylesheets, with the same options as
+ * the `ThemeProvider`. Custom (non Web Storage) `ThemeProvider` storage can't
+ * be read here; render `data-theme` on `<html>` from the server instead.
+ */
+export function ThemeScript({
+  defaultTheme = "system",
+  storage = "localStorage",
+  storageKey = defaultThemeStorageKey,
+  themes,
+  nonce,
+}: ThemeScriptProps) {
+  const attributes = { ...defaultThemeAttributes, ...themes };
+  const script = `(function () {
+  var theme = ${toScriptLiteral(defaultTheme)};
+  try {
+    var stored = window[${toScriptLiteral(storage)}].getItem(${toScriptLiteral(storageKey)});
+    if (stored === "light" || stored === "dark" || stored === "system") {
+      theme = stored;
+    }
+  } catch (error) {}
+  if (theme === "system") {
+    theme = window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+  }
+  var root = document.documentElement;
+  root.setAttribute("data-theme", ${toScriptLiteral(attributes)}[theme]);
+  root.style.colorScheme = theme;
+})();`;
+
+  return <script nonce={nonce} dangerouslySetInnerHTML={{ __html: script }} />;
+}
+
+ThemeScript.displayName = "ThemeScript";
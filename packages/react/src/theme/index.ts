@@ -0,0 +1,23 @@
+export { DensityProvider, useDensity } from "./DensityProvider";
+export type { DensityProviderProps } from "./DensityProvider";
+
+export { DirectionProvider, useDirection } from "./DirectionProvider";
+export type { Direction, DirectionProviderProps } from "./DirectionProvider";
+
+export { ThemeProvider, useTheme } from "./ThemeProvider";
+export type {
+  ThemeProviderProps,
+  ThemeContextValue,
+  ThemePreference,
+  ResolvedTheme,
+  ThemeStorage,
+  ThemeAttributes,
+} from "./ThemeProvider";
+
+export { ThemeScript } from "./ThemeScript";
+export type { ThemeScriptProps } from "./ThemeScript";
+
+export { ThemeScope } from "./ThemeScope";
+export type { ThemeScopeProps } from "./ThemeScope";
+
+export { useReducedMotion } from "./useReducedMotion";
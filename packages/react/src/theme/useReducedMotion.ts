@@ -0,0 +1,47 @@
+import React from "react";
+
+const reducedMotionQuery = "(prefers-reduced-motion: reduce)";
+
+function getReducedMotion(): boolean {
+  const motion = document.documentElement.getAttribute("data-motion");
+  if (motion === "reduced" || motion === "full") {
+    return motion === "reduced";
+  }
+  return window.matchMedia?.(reducedMotionQuery).matches ?? false;
+}
+
+/**
+ * Whether motion should be reduced: `data-motion` on `<html>` when set to
+ * `reduced` or `full`, otherwise the `prefers-reduced-motion` setting. Use
+ * it to skip JavaScript-driven animation (scrolling, charts, carousels) the
+ * way the motion tokens stop CSS animation. Starts `false`, during server
+ * rendering and hydration alike, then reads the setting once mounted and
+ * updates live.
+ *
+ * @example
+ * const reduceMotion = useReducedMotion();
+ * element.scrollIntoView({ behavior: reduceMotion ? "auto" : "smooth" });
+ */
+export function useReducedMotion(): boolean {
+  // Not read during the first render, which has to match the server's
+  const [reducedMotion, setReducedMotion] = React.useState(false);
+
+  React.useEffect(() => {
+    const handleChange = () => setReducedMotion(getReducedMotion());
+    const query = window.matchMedia?.(reducedMotionQuery);
+    const observer = new MutationObserver(handleChange);
+
+    handleChange();
+    query?.addEventListener("change", handleChange);
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["data-motion"],
+    });
+    return () => {
+      query?.removeEventListener("change", handleChange);
+      observer.disconnect();
+    };
+  }, []);
+
+  return reducedMotion;
+}
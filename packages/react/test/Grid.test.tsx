@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Grid, GridItem } from "../src";
+
+describe("Grid", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  /** Render and return the first rendered element */
+  async function render(element: React.ReactElement) {
+    await act(async () => {
+      root.render(element);
+    });
+    return container.firstElementChild as HTMLElement;
+  }
+
+  beforeEach(() => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+  });
+
+  it("adds a columns class per breakpoint and container size", async () => {
+    const grid = await render(
+      <Grid columns={{ base: 1, md: 2, lg: 4, "@sm": 3 }} />
+    );
+
+    expect([...grid.classList]).toEqual([
+      "freeui-grid",
+      "freeui-grid--gap-md",
+      "freeui-grid--columns-1",
+      "freeui-grid--md-columns-2",
+      "freeui-grid--lg-columns-4",
+      "freeui-grid--container-sm-columns-3",
+    ]);
+  });
+
+  it("uses auto-fit columns instead of columns with minChildWidth", async () => {
+    const grid = await render(<Grid columns={3} minChildWidth="12rem" />);
+
+    expect(grid.classList).toContain("freeui-grid--auto-fit");
+    expect(grid.className).not.toMatch(/columns/);
+    expect(grid.style.getPropertyValue("--freeui-grid-min-child-width")).toBe(
+      "12rem"
+    );
+  });
+
+  it("sets the template areas of each scope as custom properties", async () => {
+    const grid = await render(
+      <Grid
+        areas={{
+          base: ["header", "main"],
+          md: ["header header", "main side"],
+          "@lg": ["header side", "main side"],
+        }}
+      />
+    );
+
+    expect(grid.classList).toContain("freeui-grid--areas");
+    expect(grid.classList).toContain("freeui-grid--md-areas");
+    expect(grid.classList).toContain("freeui-grid--container-lg-areas");
+    expect(grid.style.getPropertyValue("--freeui-grid-areas")).toBe(
+      '"header" "main"'
+    );
+    expect(grid.style.getPropertyValue("--freeui-grid-areas-md")).toBe(
+      '"header header" "main side"'
+    );
+    expect(
+      grid.style.getPropertyValue("--freeui-grid-areas-container-lg")
+    ).toBe('"header side" "main side"');
+  });
+});
+
+describe("GridItem", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+  });
+
+  it("spans the full row and responsive row counts", async () => {
+    await act(async () => {
+      root.render(<GridItem colSpan="full" rowSpan={{ base: 1, md: 2 }} />);
+    });
+    const item = container.firstElementChild as HTMLElement;
+
+    expect([...item.classList]).toEqual([
+      "freeui-grid-item",
+      "freeui-grid-item--col-span-full",
+      "freeui-grid-item--row-span-1",
+      "freeui-grid-item--md-row-span-2",
+    ]);
+  });
+
+  it("places the item in a named area", async () => {
+    await act(async () => {
+      root.render(<GridItem area="sidebar" style={{ padding: "1rem" }} />);
+    });
+    const item = container.firstElementChild as HTMLElement;
+
+    expect(item.style.gridArea).toBe("sidebar");
+    expect(item.style.padding).toBe("1rem");
+  });
+});
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import React from "react";
+import { act } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ThemeProvider, useReducedMotion, useTheme } from "../src";
+
+function Readout() {
+  const { theme, resolvedTheme } = useTheme();
+  const reducedMotion = useReducedMotion();
+  return (
+    <p>
+      {theme} {resolvedTheme} {reducedMotion ? "reduced" : "full"}
+    </p>
+  );
+}
+
+function App() {
+  return (
+    <ThemeProvider defaultTheme="system">
+      <Readout />
+    </ThemeProvider>
+  );
+}
+
+/**
+ * Render like a server would, without `window`. The module already picked
+ * `useLayoutEffect` under jsdom, so React's server warning about it is muted.
+ */
+function renderOnServer(element: React.ReactElement): string {
+  vi.stubGlobal("window", undefined);
+  const consoleError = vi.spyOn(console, "error").mockImplementation(() => {
+    // see above
+  });
+  try {
+    return renderToString(element);
+  } finally {
+    consoleError.mockRestore();
+    vi.unstubAllGlobals();
+  }
+}
+
+describe("ThemeProvider", () => {
+  beforeEach(() => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    window.matchMedia = vi.fn((query: string) => ({
+      matches: true,
+      media: query,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    })) as unknown as typeof window.matchMedia;
+    localStorage.setItem("freeui-theme", "light");
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    document.documentElement.removeAttribute("data-theme");
+  });
+
+  it("hydrates without a mismatch, then applies the stored theme", async () => {
+    const container = document.createElement("div");
+    container.innerHTML = renderOnServer(<App />);
+    expect(container.textContent).toBe("system light full");
+
+    const onRecoverableError = vi.fn();
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {
+      // collected below
+    });
+    await act(async () => {
+      hydrateRoot(container, <App />, { onRecoverableError });
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("light light reduced");
+    expect(document.documentElement.getAttribute("data-theme")).toBe("light");
+    consoleError.mockRestore();
+  });
+});
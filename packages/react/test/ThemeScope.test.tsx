@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { createTheme, type TokenOverrides } from "@rockminster/tokens";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ThemeProvider, ThemeScope } from "../src";
+
+const theme = createTheme({
+  brand: "#7c3aed",
+  semantic: { success: "#16a34a" },
+});
+
+describe("ThemeScope", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  /** Render and return the scope element */
+  async function renderScope(element: React.ReactElement) {
+    await act(async () => {
+      root.render(element);
+    });
+    return container.querySelector<HTMLElement>(".freeui-theme-scope")!;
+  }
+
+  beforeEach(() => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    window.matchMedia = vi.fn((query: string) => ({
+      matches: false,
+      media: query,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    })) as unknown as typeof window.matchMedia;
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    document.documentElement.removeAttribute("data-theme");
+  });
+
+  it("applies the light variant of a createTheme() result by default", async () => {
+    const scope = await renderScope(<ThemeScope theme={theme} />);
+
+    expect(scope.style.getPropertyValue("--freeui-color-brand-500")).toBe(
+      theme.light.color.brand["500"].$value
+    );
+    expect(
+      scope.style.getPropertyValue("--freeui-color-semantic-success-600")
+    ).toBe(theme.light.color.semantic?.success?.["600"].$value);
+  });
+
+  it("follows the ThemeProvider's resolved theme", async () => {
+    const scope = await renderScope(
+      <ThemeProvider defaultTheme="dark" storage={null}>
+        <ThemeScope theme={theme} />
+      </ThemeProvider>
+    );
+
+    expect(scope.style.getPropertyValue("--freeui-color-brand-500")).toBe(
+      theme.dark.color.brand["500"].$value
+    );
+  });
+
+  it("applies token overrides on top of the theme", async () => {
+    const scope = await renderScope(
+      <ThemeScope
+        theme={theme}
+        variant="dark"
+        tokens={{ color: { brand: { 500: "#000000" } } }}
+      />
+    );
+
+    expect(scope.style.getPropertyValue("--freeui-color-brand-500")).toBe(
+      "#000000"
+    );
+    expect(scope.style.getPropertyValue("--freeui-color-brand-600")).toBe(
+      theme.dark.color.brand["600"].$value
+    );
+  });
+
+  it("skips unknown token keys with a warning instead of throwing", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    // Tenant data is untyped, so the cast stands in for a bad key at runtime
+    const tokens = {
+      color: { brand: { 500: "#000000", 501: "#111111" } },
+    } as TokenOverrides;
+
+    const scope = await renderScope(
+      <ThemeScope tokens={tokens}>
+        <span>Tenant content</span>
+      </ThemeScope>
+    );
+
+    expect(scope.textContent).toBe("Tenant content");
+    expect(scope.style.getPropertyValue("--freeui-color-brand-500")).toBe(
+      "#000000"
+    );
+    expect(scope.style.getPropertyValue("--freeui-color-brand-501")).toBe("");
+    expect(warn).toHaveBeenCalledWith(
+      'ThemeScope: skipping unknown token "color.brand.501"'
+    );
+    warn.mockRestore();
+  });
+});
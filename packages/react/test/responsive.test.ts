@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { responsiveClasses, responsiveEntries } from "../src/layout/responsive";
+
+describe("responsiveEntries", () => {
+  it("treats a plain value as the base value", () => {
+    expect(responsiveEntries("md")).toEqual([["base", "md"]]);
+    expect(responsiveEntries(3, 1)).toEqual([["base", 3]]);
+  });
+
+  it("falls back to the default when base is left out", () => {
+    expect(responsiveEntries({ md: "lg" }, "sm")).toEqual([
+      ["base", "sm"],
+      ["md", "lg"],
+    ]);
+    expect(responsiveEntries({ base: "xs", md: "lg" }, "sm")).toEqual([
+      ["base", "xs"],
+      ["md", "lg"],
+    ]);
+  });
+
+  it("leaves base out when there is neither a value nor a default", () => {
+    expect(responsiveEntries<string>({ lg: "row" })).toEqual([["lg", "row"]]);
+  });
+
+  it("skips sizes set to undefined", () => {
+    expect(responsiveEntries({ base: "sm", md: undefined, lg: "xl" })).toEqual([
+      ["base", "sm"],
+      ["lg", "xl"],
+    ]);
+  });
+
+  it("maps @size keys to container scopes", () => {
+    expect(responsiveEntries({ "@sm": "row", "@xl": "column" })).toEqual([
+      ["container-sm", "row"],
+      ["container-xl", "column"],
+    ]);
+  });
+
+  it("puts base first and keeps breakpoint and container sizes in order", () => {
+    expect(
+      responsiveEntries({ "@md": "c", lg: "b", base: "a", sm: "d" })
+    ).toEqual([
+      ["base", "a"],
+      ["container-md", "c"],
+      ["lg", "b"],
+      ["sm", "d"],
+    ]);
+  });
+});
+
+describe("responsiveClasses", () => {
+  it("builds base, breakpoint and container classes", () => {
+    expect(
+      responsiveClasses("stack", "gap", {
+        base: "sm",
+        md: "lg",
+        "@sm": "xl",
+      })
+    ).toEqual([
+      "freeui-stack--gap-sm",
+      "freeui-stack--md-gap-lg",
+      "freeui-stack--container-sm-gap-xl",
+    ]);
+  });
+
+  it("uses the default for the base class", () => {
+    expect(responsiveClasses("card", "padding", { lg: "lg" }, "md")).toEqual([
+      "freeui-card--padding-md",
+      "freeui-card--lg-padding-lg",
+    ]);
+    expect(responsiveClasses("grid", "columns", 4)).toEqual([
+      "freeui-grid--columns-4",
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useContainerSize } from "../src";
+
+/** ResizeObserver stand-in that reports the widths a test gives it */
+class MockResizeObserver {
+  static instances: MockResizeObserver[] = [];
+  observe = vi.fn();
+  disconnect = vi.fn();
+
+  constructor(private callback: ResizeObserverCallback) {
+    MockResizeObserver.instances.push(this);
+  }
+
+  resize(width: number, height = 100) {
+    this.callback(
+      [{ contentRect: { width, height } } as ResizeObserverEntry],
+      this as unknown as ResizeObserver
+    );
+  }
+}
+
+function Widget() {
+  const { ref, width, size } = useContainerSize<HTMLDivElement>();
+  return (
+    <div ref={ref}>
+      {width ?? "unmeasured"} {size}
+    </div>
+  );
+}
+
+describe("useContainerSize", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(async () => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    MockResizeObserver.instances = [];
+    vi.stubGlobal("ResizeObserver", MockResizeObserver);
+    container = document.createElement("div");
+    root = createRoot(container);
+    await act(async () => root.render(<Widget />));
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    vi.unstubAllGlobals();
+    document.documentElement.style.fontSize = "";
+  });
+
+  async function resize(width: number) {
+    await act(async () => MockResizeObserver.instances[0].resize(width));
+    return container.textContent;
+  }
+
+  it("stays base until measured", () => {
+    expect(container.textContent).toBe("unmeasured base");
+    expect(MockResizeObserver.instances[0].observe).toHaveBeenCalledWith(
+      container.firstElementChild
+    );
+  });
+
+  it("matches the width against the container size tokens", async () => {
+    // sm 24rem, md 32rem, lg 40rem, xl 48rem at 16px
+    expect(await resize(383)).toBe("383 base");
+    expect(await resize(384)).toBe("384 sm");
+    expect(await resize(511)).toBe("511 sm");
+    expect(await resize(512)).toBe("512 md");
+    expect(await resize(640)).toBe("640 lg");
+    expect(await resize(1000)).toBe("1000 xl");
+  });
+
+  it("converts the rem sizes with the root font size", async () => {
+    document.documentElement.style.fontSize = "20px";
+
+    expect(await resize(400)).toBe("400 base");
+    expect(await resize(480)).toBe("480 sm");
+  });
+
+  it("stops observing on unmount", async () => {
+    const [observer] = MockResizeObserver.instances;
+    await act(async () => root.render(null));
+
+    expect(observer.disconnect).toHaveBeenCalled();
+  });
+});
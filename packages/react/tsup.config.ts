@@ -1,7 +1,11 @@
 import { defineConfig } from "tsup";
+import { entries } from "./entries";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    ...Object.fromEntries(entries.map(({ name, source }) => [name, source])),
+  },
   format: ["cjs", "esm"],
   dts: true,
   clean: true,
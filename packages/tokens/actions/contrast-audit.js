@@ -0,0 +1,110 @@
+/**
+ * Style Dictionary action that audits the WCAG 2.x contrast of declared
+ * foreground/background token pairs and fails the build when a pair falls
+ * below its required level. The ratio math matches `checkContrast` in
+ * `src/contrast.ts`, which the build can't load before the TypeScript is
+ * compiled; `test/contrast-audit.test.ts` checks the two agree.
+ */
+
+const thresholds = {
+  text: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+  ui: { AA: 3, AAA: 3 },
+};
+
+function parseHex(color) {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (!match) {
+    throw new Error(`Contrast audit needs opaque hex colors, got "${color}"`);
+  }
+  const digits =
+    match[1].length === 3
+      ? match[1].replace(/./g, (digit) => digit + digit)
+      : match[1];
+  return [0, 2, 4].map((start) => parseInt(digits.slice(start, start + 2), 16));
+}
+
+/** sRGB channel (0-1) to linear light */
+function toLinear(srgb) {
+  return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+}
+
+function relativeLuminance(color) {
+  const [red, green, blue] = parseHex(color).map((channel) =>
+    toLinear(channel / 255)
+  );
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+function contrastRatio(foreground, background) {
+  const fg = relativeLuminance(foreground);
+  const bg = relativeLuminance(background);
+  return (Math.max(fg, bg) + 0.05) / (Math.min(fg, bg) + 0.05);
+}
+
+function formatFailure({ name, fg, bg, level, usage }, values, ratio) {
+  const required = thresholds[usage][level];
+  return [
+    `  ✗ ${name}`,
+    `      ${fg} (${values.fg}) on ${bg} (${values.bg})`,
+    `      ${ratio.toFixed(2)}:1, needs ${required}:1 for ${level} ${usage}`,
+  ].join("\n");
+}
+
+/**
+ * `contrastAudit({ theme, pairs, level })` — builds the action for one
+ * theme. `level: "AAA"` holds every pair to AAA regardless of its declared
+ * level. Attach it to a platform whose color values are CSS hex strings.
+ */
+function contrastAudit({ theme, pairs, level }) {
+  return {
+    do: (dictionary) => {
+      const values = new Map(
+        dictionary.allTokens.map((token) => [
+          token.path.join("."),
+          token.$value ?? token.value,
+        ])
+      );
+      const resolve = (path) => {
+        if (!values.has(path)) {
+          throw new Error(
+            `Contrast audit (${theme}): token "${path}" does not exist`
+          );
+        }
+        return values.get(path);
+      };
+
+      const failures = pairs
+        .map((pair) => ({
+          usage: "text",
+          ...pair,
+          ...(level ? { level } : {}),
+        }))
+        .map((pair) => {
+          const pairValues = { fg: resolve(pair.fg), bg: resolve(pair.bg) };
+          const ratio = contrastRatio(pairValues.fg, pairValues.bg);
+          return ratio < thresholds[pair.usage][pair.level]
+            ? formatFailure(pair, pairValues, ratio)
+            : null;
+        })
+        .filter(Boolean);
+
+      if (failures.length > 0) {
+        throw new Error(
+          [
+            `Contrast audit failed for the ${theme} theme (${failures.length} of ${pairs.length} pairs):`,
+            ...failures,
+          ].join("\n")
+        );
+      }
+    },
+    undo: () => {},
+  };
+}
+
+module.exports = {
+  contrastAudit,
+  contrastRatio,
+  parseHex,
+  toLinear,
+};
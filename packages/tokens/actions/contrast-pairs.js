@@ -0,0 +1,95 @@
+/**
+ * Foreground/background pairs checked by the contrast audit in every theme.
+ *
+ * `usage` picks the WCAG thresholds: `text` (default) is 4.5:1 for AA and
+ * 7:1 for AAA, `large` is 3:1 / 4.5:1, and `ui` (borders, focus rings and
+ * other non-text indicators) is 3:1.
+ */
+
+const intents = ["accent", "neutral", "success", "warning", "danger", "info"];
+
+const contrastPairs = [
+  {
+    name: "Body text",
+    fg: "color.text.default",
+    bg: "color.surface.default",
+    level: "AAA",
+  },
+  {
+    name: "Body text on cards",
+    fg: "color.text.default",
+    bg: "color.surface.raised",
+    level: "AAA",
+  },
+  {
+    name: "Body text on overlays",
+    fg: "color.text.default",
+    bg: "elevation.overlay.surface",
+    level: "AAA",
+  },
+  {
+    name: "Subdued text on overlays",
+    fg: "color.text.subdued",
+    bg: "elevation.overlay.surface",
+    level: "AA",
+  },
+  {
+    name: "Body text on modals",
+    fg: "color.text.default",
+    bg: "elevation.modal.surface",
+    level: "AAA",
+  },
+  {
+    name: "Secondary text",
+    fg: "color.text.secondary",
+    bg: "color.surface.default",
+    level: "AA",
+  },
+  {
+    name: "Subdued text",
+    fg: "color.text.subdued",
+    bg: "color.surface.default",
+    level: "AA",
+  },
+  {
+    name: "Subdued text on subtle surfaces",
+    fg: "color.text.subdued",
+    bg: "color.surface.subtle",
+    level: "AA",
+  },
+  {
+    name: "Accent text",
+    fg: "color.text.accent",
+    bg: "color.surface.default",
+    level: "AA",
+  },
+  {
+    name: "Focus ring",
+    fg: "color.border.focus",
+    bg: "color.surface.default",
+    level: "AA",
+    usage: "ui",
+  },
+  ...intents.map((intent) => ({
+    name: `Solid ${intent} text (Button, Badge)`,
+    fg: "color.text.on-solid",
+    bg: `color.intent.${intent}.solid`,
+    level: "AA",
+  })),
+  ...intents.map((intent) => ({
+    name: `Solid ${intent} text on hover`,
+    fg: "color.text.on-solid",
+    bg: `color.intent.${intent}.solid-hover`,
+    level: "AA",
+  })),
+  ...intents.map((intent) => ({
+    name: `Subtle ${intent} text (Alert, Badge)`,
+    fg: `color.intent.${intent}.fg`,
+    bg: `color.intent.${intent}.bg`,
+    level: "AA",
+  })),
+];
+
+module.exports = {
+  contrastPairs,
+};
@@ -0,0 +1,182 @@
+/**
+ * Style Dictionary action that checks the data-visualization palettes
+ * (`color.data.*`) stay usable for every reader and fails the build when
+ * they don't:
+ *
+ * - categorical colors reach 3:1 against `color.surface.default` (WCAG
+ *   non-text contrast) and stay apart from each other under simulated
+ *   protanopia, deuteranopia and tritanopia
+ * - sequential colors change lightness monotonically, and diverging colors
+ *   do so from each end towards the midpoint, so order reads without hue
+ */
+
+const { contrastRatio, parseHex, toLinear } = require("./contrast-audit");
+
+/** Minimum 3:1 for graphical objects, WCAG 1.4.11 */
+const minimumContrast = 3;
+
+/**
+ * Minimum OKLab distance between any two categorical colors, with normal
+ * vision and each simulated deficiency. 0.02 is about one just noticeable
+ * difference; series need to be told apart at a glance in a legend.
+ */
+const minimumDistance = 0.045;
+
+/** Machado, Oliveira & Fernandes (2009), severity 1, on linear sRGB */
+const visions = {
+  normal: [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ],
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+function toOklab([red, green, blue]) {
+  const [l, m, s] = [
+    0.4122214708 * red + 0.5363325363 * green + 0.0514459929 * blue,
+    0.2119034982 * red + 0.6806995451 * green + 0.1073969566 * blue,
+    0.0883024619 * red + 0.2817188376 * green + 0.6299787005 * blue,
+  ].map(Math.cbrt);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function simulate(color, matrix) {
+  const linear = parseHex(color).map((channel) => toLinear(channel / 255));
+  return toOklab(
+    matrix.map((row) =>
+      Math.min(
+        1,
+        Math.max(
+          0,
+          row.reduce((sum, weight, i) => sum + weight * linear[i], 0)
+        )
+      )
+    )
+  );
+}
+
+function distance(a, b) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/** Steps of a palette group in series order ("1", "2", ... "10") */
+function paletteSteps(dictionary, palette) {
+  return dictionary.allTokens
+    .filter(
+      (token) =>
+        token.path.length === 4 &&
+        token.path.slice(0, 3).join(".") === `color.data.${palette}`
+    )
+    .sort((a, b) => Number(a.path[3]) - Number(b.path[3]))
+    .map((token) => ({
+      name: token.path.join("."),
+      value: token.$value ?? token.value,
+    }));
+}
+
+function isMonotonic(steps) {
+  const lightness = steps.map(
+    ({ value }) =>
+      toOklab(parseHex(value).map((channel) => toLinear(channel / 255)))[0]
+  );
+  const deltas = lightness.slice(1).map((value, i) => value - lightness[i]);
+  return (
+    deltas.every((delta) => delta > 0) || deltas.every((delta) => delta < 0)
+  );
+}
+
+function auditCategorical(steps, background) {
+  const failures = steps
+    .map(({ name, value }) => ({
+      name,
+      value,
+      ratio: contrastRatio(value, background.value),
+    }))
+    .filter(({ ratio }) => ratio < minimumContrast)
+    .map(
+      ({ name, value, ratio }) =>
+        `  ✗ ${name} (${value}) on ${background.name} (${background.value}) is ${ratio.toFixed(2)}:1, needs ${minimumContrast}:1`
+    );
+
+  for (const [vision, matrix] of Object.entries(visions)) {
+    const simulated = steps.map(({ value }) => simulate(value, matrix));
+    steps.forEach((a, i) => {
+      steps.slice(i + 1).forEach((b, offset) => {
+        const apart = distance(simulated[i], simulated[i + offset + 1]);
+        if (apart < minimumDistance) {
+          failures.push(
+            `  ✗ ${a.name} (${a.value}) and ${b.name} (${b.value}) are ${apart.toFixed(3)} apart with ${vision} vision, needs ${minimumDistance}`
+          );
+        }
+      });
+    });
+  }
+  return failures;
+}
+
+/**
+ * `paletteAudit({ theme })` — builds the action for one theme. Attach it to
+ * a platform whose color values are CSS hex strings.
+ */
+function paletteAudit({ theme }) {
+  return {
+    do: (dictionary) => {
+      const background = dictionary.allTokens.find(
+        (token) => token.path.join(".") === "color.surface.default"
+      );
+      const categorical = paletteSteps(dictionary, "categorical");
+      const sequential = paletteSteps(dictionary, "sequential");
+      const diverging = paletteSteps(dictionary, "diverging");
+      const midpoint = Math.floor(diverging.length / 2);
+
+      const failures = [
+        ...auditCategorical(categorical, {
+          name: "color.surface.default",
+          value: background.$value ?? background.value,
+        }),
+        ...(isMonotonic(sequential)
+          ? []
+          : ["  ✗ color.data.sequential does not change lightness in order"]),
+        ...(isMonotonic(diverging.slice(0, midpoint + 1)) &&
+        isMonotonic(diverging.slice(midpoint))
+          ? []
+          : [
+              "  ✗ color.data.diverging does not change lightness in order towards its midpoint",
+            ]),
+      ];
+
+      if (failures.length > 0) {
+        throw new Error(
+          [`Palette audit failed for the ${theme} theme:`, ...failures].join(
+            "\n"
+          )
+        );
+      }
+    },
+    undo: () => {},
+  };
+}
+
+module.exports = {
+  paletteAudit,
+  toOklab,
+};
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+/**
+ * Token changelog between two versions:
+ *
+ *   freeui-tokens-diff <old> <new> [--format markdown|json] [--fail-on-breaking]
+ *
+ * `<old>` and `<new>` are each a token JSON file, a `dist/dtcg` directory,
+ * a package root that contains one, or a Tokens Studio project (see
+ * `diff/index.js`). The report goes to stdout. Exits with 2 when an input
+ * can't be read or has no tokens and, with `--fail-on-breaking`, with 1
+ * when a token or theme was removed, renamed or changed type.
+ */
+
+const { diffTokenSets, loadTokenSets } = require("../diff");
+const { formatJson, formatMarkdown } = require("../diff/report");
+
+const usage =
+  "Usage: freeui-tokens-diff <old> <new> [--format markdown|json] [--fail-on-breaking]";
+
+const help = `${usage}
+
+<old> and <new> are each one of:
+  a token JSON file (DTCG "$value" or legacy "value" tokens)
+  a dist/dtcg directory, or a package root that contains one
+  a Tokens Studio project directory (with $metadata.json)
+
+Options:
+  --format markdown|json  Report format (default: markdown)
+  --fail-on-breaking      Exit with 1 when a token or theme was removed,
+                          renamed or changed type
+  -h, --help              Show this help
+
+Exits with 2 when an input can't be read or has no tokens.`;
+
+const formatters = {
+  markdown: formatMarkdown,
+  json: formatJson,
+};
+
+function parseArgs(args) {
+  const options = { format: "markdown", failOnBreaking: false, inputs: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--format") {
+      options.format = args[++i];
+    } else if (arg.startsWith("--format=")) {
+      options.format = arg.slice("--format=".length);
+    } else if (arg === "--fail-on-breaking") {
+      options.failOnBreaking = true;
+    } else if (arg === "--help" || arg === "-h") {
+      options.help = true;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+  if (options.help) return options;
+  if (options.inputs.length !== 2) {
+    throw new Error("Expected an old and a new token set");
+  }
+  if (!formatters[options.format]) {
+    throw new Error(
+      `Unknown format "${options.format}", expected markdown or json`
+    );
+  }
+  return options;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(help);
+    return;
+  }
+  const [before, after] = options.inputs.map(loadTokenSets);
+  const result = diffTokenSets(before, after);
+  process.stdout.write(formatters[options.format](result));
+  if (options.failOnBreaking && result.breaking) {
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`freeui-tokens-diff: ${error.message}\n${usage}`);
+  process.exitCode = 2;
+}
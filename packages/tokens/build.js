@@ -0,0 +1,138 @@
+/**
+ * Builds every theme found by `discoverThemes()`:
+ *
+ *   node build.js
+ *
+ * Each theme gets its own CSS file in `@rockminster/css`. `tokens.css` imports
+ * the light and dark files directly; every other theme is pulled into the
+ * bundle through the generated `themes.css` import list. The alias rules for
+ * theme scopes of every theme are imported through `scopes.css`. Each density
+ * from `densities.js` gets a `<name>-density.css` file and each motion mode
+ * from `motion.js` a `<name>-motion.css` file, imported directly.
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const { densities } = require("./densities");
+const { motions } = require("./motion");
+const { createConfig, createModeConfig } = require("./style-dictionary.config");
+const { discoverThemes } = require("./themes");
+
+const cssDir = path.join(__dirname, "../css/src/generated");
+const dtcgDir = path.join(__dirname, "dist/dtcg");
+const tokensStudioDir = path.join(__dirname, "dist/tokens-studio");
+const valuesDir = path.join(__dirname, "src/generated/values");
+
+function writeImports(file, title, imports) {
+  fs.writeFileSync(
+    path.join(cssDir, file),
+    [
+      "/**",
+      ` * ${title}`,
+      " * Auto-generated from design tokens - do not edit directly",
+      " */",
+      ...imports,
+      "",
+    ].join("\n")
+  );
+}
+
+function writeThemeImports(themes) {
+  writeImports(
+    "themes.css",
+    "Additional theme tokens for FreeUI design system",
+    themes
+      .filter(({ name }) => name !== "light" && name !== "dark")
+      .flatMap(({ name, media }) => [
+        `@import "./${name}-tokens.css";`,
+        ...(media ? [`@import "./${name}-media.css" ${media.query};`] : []),
+      ])
+  );
+  writeImports(
+    "scopes.css",
+    "Theme scope aliases for FreeUI design system",
+    themes.flatMap(({ name, media }) => [
+      `@import "./${name}-scope.css";`,
+      ...(media ? [`@import "./${name}-media-scope.css" ${media.query};`] : []),
+    ])
+  );
+}
+
+/** Index of the per-theme value modules, keyed by theme name */
+function writeThemeValues(themes) {
+  const identifier = (name) =>
+    name.replace(/-([a-z0-9])/g, (_, char) => char.toUpperCase());
+
+  fs.writeFileSync(
+    path.join(valuesDir, "index.ts"),
+    [
+      "/**",
+      " * Token values per theme for FreeUI design system",
+      " * Auto-generated from design tokens - do not edit directly",
+      " */",
+      "",
+      ...themes.map(
+        ({ name }) =>
+          `import { values as ${identifier(name)} } from "./${name}";`
+      ),
+      "",
+      "export const themeValues = {",
+      ...themes.map(({ name }) =>
+        identifier(name) === name
+          ? `  ${name},`
+          : `  ${JSON.stringify(name)}: ${identifier(name)},`
+      ),
+      "};",
+      "",
+    ].join("\n")
+  );
+}
+
+/** Drop output left behind by themes that no longer exist */
+function removeStaleOutput(configs) {
+  const outputs = new Set(
+    configs.flatMap(({ platforms }) =>
+      Object.values(platforms).flatMap(({ buildPath, files }) =>
+        files.map(({ destination }) =>
+          path.join(__dirname, buildPath, destination)
+        )
+      )
+    )
+  );
+  const written = [
+    path.join(cssDir, "themes.css"),
+    path.join(cssDir, "scopes.css"),
+    path.join(valuesDir, "index.ts"),
+  ];
+
+  for (const dir of [cssDir, dtcgDir, tokensStudioDir, valuesDir]) {
+    fs.readdirSync(dir)
+      .map((file) => path.join(dir, file))
+      .filter((file) => !outputs.has(file) && !written.includes(file))
+      .forEach((file) => fs.rmSync(file));
+  }
+}
+
+async function build() {
+  const { default: StyleDictionary } = await import("style-dictionary");
+  const themes = discoverThemes();
+
+  const configs = [
+    ...themes.map((theme) => createConfig(theme, themes)),
+    ...densities.map((density) => createModeConfig("density", density)),
+    ...motions.map((motion) => createModeConfig("motion", motion)),
+  ];
+
+  for (const config of configs) {
+    const dictionary = new StyleDictionary(config);
+    await dictionary.buildAllPlatforms();
+  }
+  removeStaleOutput(configs);
+  writeThemeImports(themes);
+  writeThemeValues(themes);
+}
+
+build().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,24 @@
+/**
+ * Density modes for the tokens build.
+ *
+ * Every `src/density/<name>.json` sets the control, gap and inset tokens for
+ * one `data-density` value. The values are literal rather than references to
+ * the spacing scale, so `.freeui-theme-scope` alias rules never re-declare
+ * them over an ancestor's density. `comfortable` is also part of the light
+ * theme, which makes it the default on `:root`.
+ */
+
+const densityNames = ["compact", "comfortable", "spacious"];
+
+const defaultDensity = "comfortable";
+
+const densities = densityNames.map((name) => ({
+  name,
+  selector: `[data-density="${name}"]`,
+  source: [`src/density/${name}.json`],
+}));
+
+module.exports = {
+  defaultDensity,
+  densities,
+};
@@ -0,0 +1,343 @@
+/**
+ * Compares two token sets and classifies every difference, for release
+ * notes and for catching breaking changes before a version ships.
+ *
+ * Either side is a DTCG JSON file, a directory of `*.tokens.json` bundles
+ * (`dist/dtcg`) or a package root that contains one, e.g. a published
+ * `@rockminster/tokens` unpacked from `npm pack`, or a Tokens Studio
+ * project (`dist/tokens-studio`). Bundles are matched by theme file name,
+ * Tokens Studio sets by set name. Tokens may use DTCG `$value`/`$type` or
+ * the legacy `value`/`type` keys of older Style Dictionary sources,
+ * e.g. `src/light.json` of the published 0.0.1.
+ *
+ * Each change is one of:
+ *
+ * - `added` — a token only the new set has
+ * - `removed` — a token only the old set has (breaking)
+ * - `renamed` — a removed and an added token with the same type and
+ *   resolved value, paired by how much of their path they share (breaking)
+ * - `changed` — a token whose resolved value or type differs; a type change
+ *   is breaking. Color changes carry their perceptual distance as ΔE OK
+ *   (OKLab distance × 100; about 2 is just noticeable).
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const { parseHex, toLinear } = require("../actions/contrast-audit");
+const { toOklab } = require("../actions/palette-audit");
+
+const bundleSuffix = ".tokens.json";
+
+function readJson(file) {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read tokens from ${file}: ${error.message}`);
+  }
+}
+
+function themeName(file) {
+  const base = path.basename(file);
+  return base.endsWith(bundleSuffix)
+    ? base.slice(0, -bundleSuffix.length)
+    : path.basename(base, ".json");
+}
+
+/**
+ * `loadTokenSets(location)` — reads a file or build directory into
+ * `{ [theme]: tree }`.
+ */
+function loadTokenSets(location) {
+  if (!fs.existsSync(location)) {
+    throw new Error(`${location} does not exist`);
+  }
+  if (fs.statSync(location).isFile()) {
+    return { [themeName(location)]: readJson(location) };
+  }
+
+  // A Tokens Studio project, e.g. `dist/tokens-studio` or a designer's sync
+  const metadata = path.join(location, "$metadata.json");
+  if (fs.existsSync(metadata)) {
+    return Object.fromEntries(
+      readJson(metadata).tokenSetOrder.map((set) => [
+        set,
+        readJson(path.join(location, `${set}.json`)),
+      ])
+    );
+  }
+
+  const builtDir = path.join(location, "dist/dtcg");
+  const dir = fs.existsSync(builtDir) ? builtDir : location;
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(bundleSuffix))
+    .sort();
+  if (files.length === 0) {
+    throw new Error(
+      `${location} has no *${bundleSuffix} bundles (looked in ${dir})`
+    );
+  }
+  return Object.fromEntries(
+    files.map((file) => [themeName(file), readJson(path.join(dir, file))])
+  );
+}
+
+function hasKey(node, key) {
+  return Object.prototype.hasOwnProperty.call(node, key);
+}
+
+/**
+ * Token tree to `Map<path, { type, value }>`, with group `$type` inherited.
+ * A node is a token when it has `$value`, or a legacy `value` (typed by
+ * `type`).
+ */
+function flatten(tree) {
+  const tokens = new Map();
+  const visit = (node, trail, inheritedType) => {
+    const type = node.$type ?? inheritedType;
+    if (hasKey(node, "$value")) {
+      tokens.set(trail.join("."), { type, value: node.$value });
+      return;
+    }
+    if (hasKey(node, "value")) {
+      tokens.set(trail.join("."), {
+        type: node.type ?? type,
+        value: node.value,
+      });
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (!key.startsWith("$") && child && typeof child === "object") {
+        visit(child, [...trail, key], type);
+      }
+    }
+  };
+  visit(tree, [], undefined);
+  return tokens;
+}
+
+/**
+ * Resolves `{path}` references within the same set; unknown ones stay as-is.
+ * Legacy references may end in `.value`, e.g. `{color.brand.500.value}`.
+ */
+function resolveValue(value, tokens, seen = new Set()) {
+  if (typeof value === "string") {
+    const alias = /^\{([^{}]+?)(?:\.\$?value)?\}$/.exec(value);
+    if (alias) {
+      const target = tokens.get(alias[1]);
+      if (!target || seen.has(alias[1])) return value;
+      return resolveValue(target.value, tokens, new Set([...seen, alias[1]]));
+    }
+    return value.replace(/\{[^{}]+\}/g, (match) => {
+      const resolved = resolveValue(match, tokens, seen);
+      return typeof resolved === "string" ? resolved : match;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, tokens, seen));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveValue(item, tokens, seen),
+      ])
+    );
+  }
+  return value;
+}
+
+function resolveAll(tree) {
+  const tokens = flatten(tree);
+  return new Map(
+    [...tokens].map(([tokenPath, { type, value }]) => [
+      tokenPath,
+      { type, value: resolveValue(value, tokens) },
+    ])
+  );
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Legacy tokens often have no type, which matches any */
+function sameType(a, b) {
+  return a === undefined || b === undefined || a === b;
+}
+
+/** ΔE OK between two hex colors, or null when either isn't one */
+function colorDelta(from, to) {
+  const toLab = (color) => {
+    const match = /^#([0-9a-f]{6})(?:[0-9a-f]{2})?$|^#([0-9a-f]{3})$/i.exec(
+      color
+    );
+    if (!match) return null;
+    return toOklab(
+      parseHex(`#${match[1] ?? match[2]}`).map((channel) =>
+        toLinear(channel / 255)
+      )
+    );
+  };
+  if (typeof from !== "string" || typeof to !== "string") return null;
+  const [a, b] = [toLab(from), toLab(to)];
+  if (!a || !b) return null;
+  return (
+    Math.round(Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]) * 10000) / 100
+  );
+}
+
+/** Path segments two token paths have in common, leaf weighted highest */
+function pathSimilarity(a, b) {
+  const [from, to] = [a.split("."), b.split(".")];
+  const shared = from.filter((segment) => to.includes(segment)).length;
+  return shared + (from[from.length - 1] === to[to.length - 1] ? 1 : 0);
+}
+
+/**
+ * Pairs removed tokens with added ones of the same type and value. A
+ * removed token whose best candidates tie is left unpaired rather than
+ * guessed.
+ */
+function pairRenames(removed, added) {
+  const renames = [];
+  const claimed = new Set();
+  for (const [from, token] of removed) {
+    const ranked = [...added]
+      .filter(
+        ([to, candidate]) =>
+          !claimed.has(to) &&
+          sameType(candidate.type, token.type) &&
+          sameValue(candidate.value, token.value)
+      )
+      .map(([to]) => ({ to, score: pathSimilarity(from, to) }))
+      .sort((a, b) => b.score - a.score);
+    if (ranked.length === 0) continue;
+    if (ranked.length > 1 && ranked[0].score === ranked[1].score) continue;
+    claimed.add(ranked[0].to);
+    renames.push({ from, to: ranked[0].to });
+  }
+  return renames;
+}
+
+/** Changes between two resolved token maps of one theme */
+function diffTheme(before, after) {
+  const removed = [...before].filter(([tokenPath]) => !after.has(tokenPath));
+  const added = [...after].filter(([tokenPath]) => !before.has(tokenPath));
+  const renames = pairRenames(removed, added);
+  const renamedFrom = new Set(renames.map(({ from }) => from));
+  const renamedTo = new Set(renames.map(({ to }) => to));
+
+  const changed = [...after]
+    .filter(([tokenPath]) => before.has(tokenPath))
+    .map(([tokenPath, next]) => [tokenPath, before.get(tokenPath), next])
+    .filter(
+      ([, previous, next]) =>
+        !sameType(previous.type, next.type) ||
+        !sameValue(previous.value, next.value)
+    )
+    .map(([tokenPath, previous, next]) => {
+      const deltaE = colorDelta(previous.value, next.value);
+      const typeChanged = !sameType(previous.type, next.type);
+      return {
+        kind: "changed",
+        path: tokenPath,
+        type: next.type ?? previous.type,
+        ...(typeChanged ? { previousType: previous.type } : {}),
+        from: previous.value,
+        to: next.value,
+        ...(deltaE !== null ? { deltaE } : {}),
+        breaking: typeChanged,
+      };
+    });
+
+  return [
+    ...removed
+      .filter(([tokenPath]) => !renamedFrom.has(tokenPath))
+      .map(([tokenPath, { type, value }]) => ({
+        kind: "removed",
+        path: tokenPath,
+        type,
+        value,
+        breaking: true,
+      })),
+    ...renames.map(({ from, to }) => ({
+      kind: "renamed",
+      path: from,
+      to,
+      type: before.get(from).type,
+      value: before.get(from).value,
+      breaking: true,
+    })),
+    ...changed,
+    ...added
+      .filter(([tokenPath]) => !renamedTo.has(tokenPath))
+      .map(([tokenPath, { type, value }]) => ({
+        kind: "added",
+        path: tokenPath,
+        type,
+        value,
+        breaking: false,
+      })),
+  ];
+}
+
+/**
+ * `diffTokenSets(before, after)` — compares two `{ [theme]: tree }` sets.
+ * A change found in several themes is reported once, listing its themes.
+ * When each side is a single file, their names don't need to match. A
+ * compared theme without any tokens on either side throws, since every
+ * token would otherwise show up as added or removed.
+ */
+function diffTokenSets(before, after) {
+  const [beforeNames, afterNames] = [Object.keys(before), Object.keys(after)];
+  const single = beforeNames.length === 1 && afterNames.length === 1;
+  const compared = single
+    ? [[afterNames[0], beforeNames[0], afterNames[0]]]
+    : afterNames
+        .filter((name) => beforeNames.includes(name))
+        .map((name) => [name, name, name]);
+
+  const changes = new Map();
+  for (const [theme, beforeName, afterName] of compared) {
+    const [previous, next] = [
+      ["old", beforeName, resolveAll(before[beforeName])],
+      ["new", afterName, resolveAll(after[afterName])],
+    ].map(([side, name, tokens]) => {
+      if (tokens.size === 0) {
+        throw new Error(
+          `The ${side} token set "${name}" has no tokens (no "$value" or "value" entries)`
+        );
+      }
+      return tokens;
+    });
+    const themeChanges = diffTheme(previous, next);
+    for (const change of themeChanges) {
+      const key = JSON.stringify(change);
+      if (changes.has(key)) {
+        changes.get(key).themes.push(theme);
+      } else {
+        changes.set(key, { ...change, themes: [theme] });
+      }
+    }
+  }
+
+  const themes = {
+    compared: compared.map(([theme]) => theme),
+    added: single ? [] : afterNames.filter((name) => !before[name]),
+    removed: single ? [] : beforeNames.filter((name) => !after[name]),
+  };
+  const list = [...changes.values()];
+  return {
+    breaking:
+      themes.removed.length > 0 || list.some(({ breaking }) => breaking),
+    themes,
+    changes: list,
+  };
+}
+
+module.exports = {
+  colorDelta,
+  diffTokenSets,
+  loadTokenSets,
+};
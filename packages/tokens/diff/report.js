@@ -0,0 +1,140 @@
+/**
+ * Renders a `diffTokenSets()` result as Markdown release notes or JSON.
+ */
+
+const sections = [
+  { kind: "removed", title: "Removed", breaking: true },
+  { kind: "renamed", title: "Renamed", breaking: true },
+  { kind: "changed", title: "Changed" },
+  { kind: "added", title: "Added" },
+];
+
+function cssVariable(tokenPath) {
+  return `--freeui-${tokenPath.split(".").join("-")}`;
+}
+
+function formatValue(value) {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `\`${text.replace(/\|/g, "\\|")}\``;
+}
+
+function describeChange(change) {
+  switch (change.kind) {
+    case "removed":
+    case "added":
+      return [
+        `\`${change.path}\``,
+        `\`${cssVariable(change.path)}\``,
+        formatValue(change.value),
+      ];
+    case "renamed":
+      return [
+        `\`${change.path}\``,
+        `\`${change.to}\``,
+        `\`${cssVariable(change.to)}\``,
+      ];
+    default:
+      return [
+        `\`${change.path}\`${change.previousType ? ` (type ${change.previousType} → ${change.type}, breaking)` : ""}`,
+        formatValue(change.from),
+        formatValue(change.to),
+        change.deltaE === undefined ? "" : change.deltaE.toFixed(2),
+      ];
+  }
+}
+
+const headers = {
+  removed: ["Token", "CSS variable", "Value"],
+  added: ["Token", "CSS variable", "Value"],
+  renamed: ["From", "To", "CSS variable"],
+  changed: ["Token", "Before", "After", "ΔE OK"],
+};
+
+function table(columns, rows) {
+  return [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+}
+
+function count(changes, kind) {
+  return changes.filter((change) => change.kind === kind).length;
+}
+
+/**
+ * `formatMarkdown(result)` — a summary line and one table per kind of
+ * change. Adds a Themes column when more than one theme was compared.
+ */
+function formatMarkdown({ breaking, themes, changes }) {
+  const perTheme = themes.compared.length > 1;
+  const summary = sections
+    .map(({ kind }) => `${count(changes, kind)} ${kind}`)
+    .join(", ");
+
+  const lines = [
+    "# Token changes",
+    "",
+    `${breaking ? "**Breaking.** " : ""}${summary}.`,
+  ];
+  if (themes.removed.length > 0) {
+    lines.push("", `Removed themes (breaking): ${themes.removed.join(", ")}.`);
+  }
+  if (themes.added.length > 0) {
+    lines.push("", `Added themes: ${themes.added.join(", ")}.`);
+  }
+
+  for (const { kind, title, breaking: isBreaking } of sections) {
+    const rows = changes.filter((change) => change.kind === kind);
+    if (rows.length === 0) continue;
+    const columns = [...headers[kind], ...(perTheme ? ["Themes"] : [])];
+    lines.push(
+      "",
+      `## ${title}${isBreaking ? " (breaking)" : ""}`,
+      "",
+      table(
+        columns,
+        rows.map((change) => [
+          ...describeChange(change),
+          ...(perTheme
+            ? [
+                change.themes.length === themes.compared.length
+                  ? "all"
+                  : change.themes.join(", "),
+              ]
+            : []),
+        ])
+      )
+    );
+  }
+
+  if (changes.length === 0) {
+    lines.push("", "No token changes.");
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** `formatJson(result)` — the result with each token's CSS variable added */
+function formatJson({ breaking, themes, changes }) {
+  return (
+    JSON.stringify(
+      {
+        breaking,
+        themes,
+        changes: changes.map((change) => ({
+          ...change,
+          cssVariable: cssVariable(
+            change.kind === "renamed" ? change.to : change.path
+          ),
+        })),
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+module.exports = {
+  formatJson,
+  formatMarkdown,
+};
@@ -0,0 +1,37 @@
+/**
+ * Style Dictionary format that emits the breakpoint tokens as CSS custom
+ * media queries, compiled away by `postcss-custom-media` in
+ * `@rockminster/css` and shipped for consumers' own stylesheets.
+ *
+ * Each breakpoint gets a mobile-first query and its complement:
+ * `--freeui-breakpoint-md` (`width >= 48rem`) and
+ * `--freeui-breakpoint-below-md` (`width < 48rem`).
+ *
+ * Container size tokens get the same pair (`--freeui-container-sm`,
+ * `--freeui-container-below-sm`) in a separate file, for `@container`
+ * queries that `container-queries.js` in `@rockminster/css` compiles.
+ */
+
+const { formatComment } = require("./typescript");
+
+/**
+ * `css/freeui-custom-media` — one pair of `@custom-media` rules per
+ * breakpoint or container size token.
+ */
+function cssCustomMedia({ dictionary, options }) {
+  const header = options.fileHeader ? options.fileHeader() : [];
+  const rules = dictionary.allTokens.flatMap((token) => {
+    const value = options.usesDtcg ? token.$value : token.value;
+    const below = token.name.replace(/-(breakpoint|container)-/, "-$1-below-");
+    return [
+      `@custom-media --${token.name} (width >= ${value});`,
+      `@custom-media --${below} (width < ${value});`,
+    ];
+  });
+
+  return [formatComment(header), rules.join("\n")].join("\n\n") + "\n";
+}
+
+module.exports = {
+  cssCustomMedia,
+};
@@ -0,0 +1,45 @@
+/**
+ * Style Dictionary format that emits a DTCG (W3C Design Tokens Community
+ * Group) bundle of the sources, for round-tripping with external tooling.
+ *
+ * Values are written as authored, so aliases stay `{color.neutral.900}`
+ * references and composite tokens (shadow, cubicBezier) keep their object
+ * and array shapes. Every token carries its resolved `$type`.
+ *
+ * Fluid sizes are a FreeUI extension, not a DTCG type: they are written as
+ * a `dimension` referencing their largest size, with the bounds under
+ * `$extensions["com.rockminster.freeui"].fluid` for tooling that knows them.
+ */
+
+const extensionKey = "com.rockminster.freeui";
+
+function dtcgToken(token) {
+  if (token.$type === "fluidDimension") {
+    return {
+      $type: "dimension",
+      $value: token.original.$value.max,
+      $extensions: { [extensionKey]: { fluid: token.original.$value } },
+    };
+  }
+  return { $type: token.$type, $value: token.original.$value };
+}
+
+function dtcgBundle({ dictionary }) {
+  const tree = {};
+  for (const token of dictionary.allTokens) {
+    let node = tree;
+    token.path.slice(0, -1).forEach((key) => {
+      node[key] = node[key] || {};
+      node = node[key];
+    });
+    node[token.path[token.path.length - 1]] = {
+      ...dtcgToken(token),
+      ...(token.$description ? { $description: token.$description } : {}),
+    };
+  }
+  return JSON.stringify(tree, null, 2) + "\n";
+}
+
+module.exports = {
+  dtcgBundle,
+};
@@ -0,0 +1,71 @@
+/**
+ * Style Dictionary formats behind `cssVar()` and `tokenValue()`: the list of
+ * token paths (`color.semantic.error.600`) and, per theme, the value each
+ * path resolves to.
+ *
+ * `cssVar()` derives the custom property name by joining the path with `-`,
+ * so the values format checks that every CSS name follows that rule.
+ */
+
+const { formatComment, formatValue } = require("./typescript");
+
+function toPath(token) {
+  return token.path.join(".");
+}
+
+/**
+ * `typescript/freeui-token-paths` — `tokenPaths` and the `TokenPath` union
+ * of every token in the dictionary.
+ */
+function typescriptTokenPaths({ dictionary, options }) {
+  const header = options.fileHeader ? options.fileHeader() : [];
+  const paths = dictionary.allTokens.map(
+    (token) => `  ${JSON.stringify(toPath(token))},`
+  );
+
+  return (
+    [
+      formatComment(header),
+      [
+        formatComment([
+          'Dot-separated path of every token, e.g. `"color.semantic.error.600"`',
+        ]),
+        `export const tokenPaths = [\n${paths.join("\n")}\n] as const;`,
+      ].join("\n"),
+      "export type TokenPath = (typeof tokenPaths)[number];",
+    ].join("\n\n") + "\n"
+  );
+}
+
+/**
+ * `typescript/freeui-token-values` — the resolved CSS value of every token
+ * the theme's sources define, keyed by token path. Expects the `css/freeui`
+ * transforms and the `freeui` prefix of the CSS platform.
+ */
+function typescriptTokenValues({ dictionary, options }) {
+  const header = options.fileHeader ? options.fileHeader() : [];
+  const values = {};
+  for (const token of dictionary.allTokens) {
+    const name = ["freeui", ...token.path].join("-");
+    if (token.name !== name) {
+      throw new Error(
+        `Token "${toPath(token)}" is emitted as --${token.name}, expected --${name}`
+      );
+    }
+    values[toPath(token)] = String(
+      options.usesDtcg ? token.$value : token.value
+    );
+  }
+
+  return (
+    [
+      formatComment(header),
+      `export const values = ${formatValue(values, 0)} as const;`,
+    ].join("\n\n") + "\n"
+  );
+}
+
+module.exports = {
+  typescriptTokenPaths,
+  typescriptTokenValues,
+};
@@ -0,0 +1,61 @@
+/**
+ * Style Dictionary format that emits the breakpoint- and container-scoped
+ * classes of one layout block from `responsive.js`:
+ *
+ * - one `@media` block per breakpoint token, using the breakpoint custom
+ *   media compiled away by `postcss-custom-media` in `@rockminster/css`
+ * - one `@container` block per container size token, matching the nearest
+ *   ancestor container such as `<Card container>`, using the container
+ *   custom media compiled by `container-queries.js` in `@rockminster/css`
+ *
+ * Each kind runs smallest first so wider sizes win, and container rules
+ * come last so they beat viewport rules when both apply. Selectors repeat
+ * the block class, so they override the base
+ * `freeui-<block>--<prop>-<value>` classes whatever the order of the
+ * stylesheets.
+ */
+
+const { formatComment } = require("./typescript");
+
+function bySize(tokens, usesDtcg) {
+  const size = (token) => parseFloat(usesDtcg ? token.$value : token.value);
+  return [...tokens].sort((a, b) => size(a) - size(b));
+}
+
+/**
+ * `css/freeui-responsive` — `freeui-<block>--<breakpoint>-<prop>-<value>`
+ * and `freeui-<block>--container-<size>-<prop>-<value>` classes for
+ * `options.block` and its `options.props`, applying from each size up.
+ */
+function cssResponsive({ dictionary, options }) {
+  const header = options.fileHeader ? options.fileHeader() : [];
+  const { block, props } = options;
+
+  const rules = (scope) =>
+    Object.entries(props).flatMap(([prop, values]) =>
+      Object.entries(values).map(([value, declaration]) => {
+        const modifier = value === "" ? prop : `${prop}-${value}`;
+        return `  .freeui-${block}.freeui-${block}--${scope}-${modifier} {\n    ${declaration.replace("{scope}", scope)};\n  }`;
+      })
+    );
+  const group = (name) =>
+    bySize(
+      dictionary.allTokens.filter((token) => token.path[0] === name),
+      options.usesDtcg
+    );
+
+  const media = group("breakpoint").map((token) => {
+    const breakpoint = token.path[token.path.length - 1];
+    return `@media (--${token.name}) {\n${rules(breakpoint).join("\n\n")}\n}`;
+  });
+  const containers = group("container").map((token) => {
+    const size = token.path[token.path.length - 1];
+    return `@container (--${token.name}) {\n${rules(`container-${size}`).join("\n\n")}\n}`;
+  });
+
+  return [formatComment(header), ...media, ...containers].join("\n\n") + "\n";
+}
+
+module.exports = {
+  cssResponsive,
+};
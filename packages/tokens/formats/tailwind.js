@@ -0,0 +1,132 @@
+/**
+ * Style Dictionary format that emits the Tailwind CSS theme behind
+ * `@rockminster/tokens/tailwind`.
+ *
+ * Every value is a `var(--freeui-*)` reference rather than a resolved value,
+ * so Tailwind utilities follow `data-theme` switching like the `freeui-*`
+ * classes do. Scale keys mirror the token paths: `bg-brand-500` reads
+ * `--freeui-color-brand-500`, `p-4` reads `--freeui-spacing-4`.
+ *
+ * Transition durations read the `motion.duration` tokens, which collapse to
+ * `0ms` under reduced motion, so `duration-*` utilities honour it too.
+ *
+ * Colors carry Tailwind's `<alpha-value>` placeholder inside a
+ * `color-mix()`, so opacity modifiers (`bg-brand-500/50`) work on the
+ * custom properties too.
+ */
+
+const { formatComment, formatValue } = require("./typescript");
+
+/** Tailwind theme keys and the token groups (dot-separated paths) that fill them */
+const tailwindMap = {
+  colors: "color",
+  spacing: "spacing",
+  borderRadius: "border-radius",
+  borderWidth: "border-width",
+  boxShadow: "shadow",
+  fontFamily: "font-family",
+  fontSize: "font-size",
+  fontWeight: "font-weight",
+  lineHeight: "line-height",
+  letterSpacing: "letter-spacing",
+  transitionDuration: "motion.duration",
+  transitionTimingFunction: "easing",
+  zIndex: "z-index",
+};
+
+/**
+ * Token used for the unsuffixed utility (`rounded`, `shadow`, `border`),
+ * which Tailwind reads from the `DEFAULT` key
+ */
+const defaultKeys = {
+  borderRadius: "base",
+  borderWidth: "default",
+  boxShadow: "base",
+};
+
+/**
+ * Tailwind's color keywords, which would otherwise go away with the default
+ * palette the preset replaces (`text-current`, `border-transparent`)
+ */
+const colorKeywords = {
+  inherit: "inherit",
+  current: "currentColor",
+  transparent: "transparent",
+};
+
+/** Color that Tailwind can apply an opacity modifier to */
+function withAlphaValue(variable) {
+  return `color-mix(in srgb, ${variable} calc(<alpha-value> * 100%), transparent)`;
+}
+
+function mapLeaves(tree, transform) {
+  return Object.fromEntries(
+    Object.entries(tree).map(([key, value]) => [
+      key,
+      typeof value === "string"
+        ? transform(value)
+        : mapLeaves(value, transform),
+    ])
+  );
+}
+
+/** Tree of `var(--<token name>)` strings keyed by token path */
+function toVariableTree(allTokens) {
+  const tree = {};
+  for (const token of allTokens) {
+    let node = tree;
+    token.path.slice(0, -1).forEach((key) => {
+      node[key] = node[key] || {};
+      node = node[key];
+    });
+    node[token.path[token.path.length - 1]] = `var(--${token.name})`;
+  }
+  return tree;
+}
+
+/**
+ * `typescript/freeui-tailwind` — a `tailwindTheme` object with one Tailwind
+ * scale per entry in `tailwindMap`.
+ */
+function typescriptTailwind({ dictionary, options }) {
+  const tree = toVariableTree(dictionary.allTokens);
+  const header = options.fileHeader ? options.fileHeader() : [];
+
+  const theme = Object.fromEntries(
+    Object.entries(tailwindMap).map(([key, group]) => {
+      const tokens = group
+        .split(".")
+        .reduce((node, name) => node?.[name], tree);
+      if (!tokens) {
+        throw new Error(`Token group "${group}" is missing from the sources`);
+      }
+      const scale =
+        key === "colors"
+          ? { ...mapLeaves(tokens, withAlphaValue), ...colorKeywords }
+          : tokens;
+      return [
+        key,
+        key in defaultKeys
+          ? { DEFAULT: scale[defaultKeys[key]], ...scale }
+          : scale,
+      ];
+    })
+  );
+
+  return (
+    [
+      formatComment(header),
+      [
+        formatComment([
+          "Tailwind CSS theme scales resolving to FreeUI CSS custom properties",
+        ]),
+        `export const tailwindTheme = ${formatValue(theme, 0)} as const;`,
+      ].join("\n"),
+    ].join("\n\n") + "\n"
+  );
+}
+
+module.exports = {
+  tailwindMap,
+  typescriptTailwind,
+};
@@ -0,0 +1,197 @@
+/**
+ * Style Dictionary formats that emit a Tokens Studio for Figma project
+ * (multi-file, DTCG token format), so designers import the built tokens
+ * instead of copying values by hand:
+ *
+ * - `core.json` — typography, typography composites, spacing, radii,
+ *   border widths and shadows
+ * - `<theme>.json` — the complete color set and elevation of one theme
+ * - `$themes.json` — one Tokens Studio theme per FreeUI theme, with `core`
+ *   as a source set and the theme's set enabled
+ * - `$metadata.json` — the set order
+ *
+ * Values are written as authored, so aliases stay `{color.neutral.900}`
+ * references; `$type`s are the Tokens Studio ones (`fontSizes`,
+ * `borderRadius`, `boxShadow`, ...) so every token maps to a Figma style or
+ * variable. Unitless line heights become percentages and `em` letter
+ * spacing becomes percent, as Figma expects.
+ */
+
+const coreSet = "core";
+
+/** Token groups in each kind of set */
+const coreGroups = [
+  "font-family",
+  "font-size",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "spacing",
+  "border-radius",
+  "border-width",
+  "shadow",
+];
+const themeGroups = ["color", "elevation"];
+
+/** Tokens Studio type for tokens whose `$type` is `dimension` or `number` */
+const groupTypes = {
+  "font-size": "fontSizes",
+  "line-height": "lineHeights",
+  "letter-spacing": "letterSpacing",
+  spacing: "spacing",
+  "border-radius": "borderRadius",
+  "border-width": "borderWidth",
+};
+
+const typeNames = {
+  color: "color",
+  fontFamily: "fontFamilies",
+  fontWeight: "fontWeights",
+  shadow: "boxShadow",
+};
+
+/**
+ * Typography composites matching the `Heading` and `Text` sizes in
+ * `@rockminster/css`, at their default weights
+ */
+const typographyStyles = {
+  heading: {
+    lineHeight: "tight",
+    fontWeight: "semibold",
+    sizes: {
+      xs: "base",
+      sm: "lg",
+      md: "xl",
+      lg: "2xl",
+      xl: "3xl",
+      xxl: "4xl",
+    },
+  },
+  text: {
+    lineHeight: "normal",
+    fontWeight: "normal",
+    sizes: { xs: "xs", sm: "sm", md: "base", lg: "lg", xl: "xl" },
+  },
+};
+
+function isReference(value) {
+  return typeof value === "string" && /^\{[^}]+\}$/.test(value);
+}
+
+function toShadow(layer) {
+  return {
+    x: layer.offsetX,
+    y: layer.offsetY,
+    blur: layer.blur,
+    spread: layer.spread,
+    color: layer.color,
+    type: layer.inset ? "innerShadow" : "dropShadow",
+  };
+}
+
+function toPercent(ratio) {
+  return `${Number((ratio * 100).toFixed(4))}%`;
+}
+
+function toTokensStudioValue(type, value) {
+  if (isReference(value)) return value;
+  switch (type) {
+    case "fontFamilies":
+      return Array.isArray(value) ? value.join(", ") : value;
+    case "lineHeights":
+      return typeof value === "number" ? toPercent(value) : value;
+    case "letterSpacing":
+      return typeof value === "string" && value.endsWith("em")
+        ? toPercent(parseFloat(value))
+        : value;
+    case "boxShadow":
+      return Array.isArray(value) ? value.map(toShadow) : toShadow(value);
+    default:
+      return value;
+  }
+}
+
+function tokensStudioType(token) {
+  return typeNames[token.$type] ?? groupTypes[token.path[0]] ?? "dimension";
+}
+
+function setToken(tree, path, token) {
+  let node = tree;
+  path.slice(0, -1).forEach((key) => {
+    node[key] = node[key] || {};
+    node = node[key];
+  });
+  node[path[path.length - 1]] = token;
+}
+
+function typographyComposites() {
+  return Object.fromEntries(
+    Object.entries(typographyStyles).map(([name, style]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(style.sizes).map(([size, fontSize]) => [
+          size,
+          {
+            $type: "typography",
+            $value: {
+              fontFamily: "{font-family.sans}",
+              fontWeight: `{font-weight.${style.fontWeight}}`,
+              fontSize: `{font-size.${fontSize}}`,
+              lineHeight: `{line-height.${style.lineHeight}}`,
+              letterSpacing: "{letter-spacing.normal}",
+            },
+          },
+        ])
+      ),
+    ])
+  );
+}
+
+/**
+ * `json/tokens-studio-set` — one token set. Pass `options.typography: true`
+ * to add the typography composites (the core set).
+ */
+function tokensStudioSet({ dictionary, options }) {
+  const tree = {};
+  for (const token of dictionary.allTokens) {
+    // `shadow.none` has no layers to describe
+    if (token.$type === "shadow" && token.original.$value === "none") continue;
+    const type = tokensStudioType(token);
+    setToken(tree, token.path, {
+      $type: type,
+      $value: toTokensStudioValue(type, token.original.$value),
+      ...(token.$description ? { $description: token.$description } : {}),
+    });
+  }
+  if (options.typography) {
+    tree.typography = typographyComposites();
+  }
+  return JSON.stringify(tree, null, 2) + "\n";
+}
+
+/** `json/tokens-studio-themes` — `$themes.json` for `options.themes` */
+function tokensStudioThemes({ options }) {
+  const themes = options.themes.map((name) => ({
+    id: name,
+    name,
+    selectedTokenSets: { [coreSet]: "source", [name]: "enabled" },
+  }));
+  return JSON.stringify(themes, null, 2) + "\n";
+}
+
+/** `json/tokens-studio-metadata` — `$metadata.json` for `options.themes` */
+function tokensStudioMetadata({ options }) {
+  return (
+    JSON.stringify({ tokenSetOrder: [coreSet, ...options.themes] }, null, 2) +
+    "\n"
+  );
+}
+
+module.exports = {
+  coreGroups,
+  coreSet,
+  themeGroups,
+  tokensStudioMetadata,
+  tokensStudioSet,
+  tokensStudioThemes,
+};
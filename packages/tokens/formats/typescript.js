@@ -0,0 +1,215 @@
+/**
+ * Style Dictionary format that emits the typed token exports of
+ * `@rockminster/tokens` (`colors`, `typography`, `spacing`, ...).
+ *
+ * Token groups in the JSON sources are named after their CSS variables
+ * (`font-size`, `border-radius`, ...). `exportsMap` describes how those
+ * groups are arranged into the public TypeScript objects.
+ */
+
+const exportsMap = [
+  {
+    name: "colors",
+    comment: [
+      "Color tokens for FreeUI design system",
+      "WCAG AA compliant color palette",
+    ],
+    groups: "color",
+  },
+  {
+    name: "typography",
+    comment: ["Typography tokens"],
+    groups: {
+      fontFamily: "font-family",
+      fontSize: "font-size",
+      fontSizeFluid: "font-size-fluid",
+      fontWeight: "font-weight",
+      lineHeight: "line-height",
+      letterSpacing: "letter-spacing",
+    },
+  },
+  {
+    name: "spacing",
+    comment: ["Spacing tokens"],
+    groups: "spacing",
+  },
+  {
+    name: "density",
+    comment: [
+      "Control, gap and inset tokens",
+      "Values of the default (comfortable) density",
+    ],
+    groups: {
+      control: "control",
+      gap: "gap",
+      inset: "inset",
+    },
+  },
+  {
+    name: "borderRadius",
+    comment: ["Border radius tokens"],
+    groups: "border-radius",
+  },
+  {
+    name: "borderWidth",
+    comment: ["Border width tokens"],
+    groups: "border-width",
+  },
+  {
+    name: "focusRing",
+    comment: ["Focus ring tokens"],
+    groups: "focus-ring",
+  },
+  {
+    name: "elevation",
+    comment: [
+      "Elevation tokens",
+      "Shadow and surface color per level, light theme values",
+    ],
+    groups: "elevation",
+  },
+  {
+    name: "shadows",
+    comment: ["Shadow tokens"],
+    groups: "shadow",
+  },
+  {
+    name: "zIndex",
+    comment: ["Z-index scale for stacked layers"],
+    groups: "z-index",
+  },
+  {
+    name: "breakpoints",
+    comment: ["Breakpoint tokens (minimum viewport widths)"],
+    groups: "breakpoint",
+  },
+  {
+    name: "containers",
+    comment: ["Container size tokens (minimum container widths)"],
+    groups: "container",
+  },
+  {
+    name: "animation",
+    comment: ["Animation tokens"],
+    groups: {
+      duration: "duration",
+      easing: "easing",
+      motion: "motion",
+    },
+  },
+];
+
+/**
+ * Collapse the token list into a tree of plain values, keyed by token path.
+ * The platform only flattens composite values (shadow, cubicBezier) into CSS
+ * strings, so font stacks stay arrays.
+ */
+function toValueTree(allTokens, usesDtcg) {
+  const tree = {};
+  for (const token of allTokens) {
+    let node = tree;
+    token.path.slice(0, -1).forEach((key) => {
+      node[key] = node[key] || {};
+      node = node[key];
+    });
+    node[token.path[token.path.length - 1]] = usesDtcg
+      ? token.$value
+      : token.value;
+  }
+  return tree;
+}
+
+function resolveGroups(tree, groups) {
+  if (typeof groups === "string") {
+    if (!(groups in tree)) {
+      throw new Error(`Token group "${groups}" is missing from the sources`);
+    }
+    return tree[groups];
+  }
+  return Object.fromEntries(
+    Object.entries(groups).map(([key, group]) => [
+      key,
+      resolveGroups(tree, group),
+    ])
+  );
+}
+
+function formatKey(key) {
+  return /^(\d+|[A-Za-z_$][\w$]*)$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatValue(value, depth) {
+  const indent = "  ".repeat(depth + 1);
+  const closing = "  ".repeat(depth);
+  if (Array.isArray(value)) {
+    const items = value.map(
+      (item) => `${indent}${formatValue(item, depth + 1)},`
+    );
+    return `[\n${items.join("\n")}\n${closing}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([key, item]) =>
+        `${indent}${formatKey(key)}: ${formatValue(item, depth + 1)},`
+    );
+    return `{\n${entries.join("\n")}\n${closing}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function formatComment(lines) {
+  return ["/**", ...lines.map((line) => ` * ${line}`), " */"].join("\n");
+}
+
+/**
+ * `typescript/freeui-tokens` — one `as const` export per entry in
+ * `exportsMap`, so consumers keep literal types for every token value.
+ */
+function typescriptTokens({ dictionary, options }) {
+  const tree = toValueTree(dictionary.allTokens, options.usesDtcg);
+  const header = options.fileHeader ? options.fileHeader() : [];
+
+  const body = exportsMap.map(({ name, comment, groups }) =>
+    [
+      formatComment(comment),
+      `export const ${name} = ${formatValue(resolveGroups(tree, groups), 0)} as const;`,
+    ].join("\n")
+  );
+
+  return [formatComment(header), ...body].join("\n\n") + "\n";
+}
+
+/**
+ * `typescript/freeui-themes` — the `data-theme` and `data-density` names
+ * emitted by the build, passed in through the `themes` and `densities` file
+ * options.
+ */
+function typescriptThemes({ options }) {
+  const header = options.fileHeader ? options.fileHeader() : [];
+  const list = (names) =>
+    `[\n${names.map((name) => `  ${JSON.stringify(name)},`).join("\n")}\n]`;
+
+  return (
+    [
+      formatComment(header),
+      [
+        formatComment(["Names accepted by the `data-theme` attribute"]),
+        `export const themeNames = ${list(options.themes)} as const;`,
+      ].join("\n"),
+      "export type ThemeName = (typeof themeNames)[number];",
+      [
+        formatComment(["Names accepted by the `data-density` attribute"]),
+        `export const densityNames = ${list(options.densities)} as const;`,
+      ].join("\n"),
+      "export type Density = (typeof densityNames)[number];",
+    ].join("\n\n") + "\n"
+  );
+}
+
+module.exports = {
+  exportsMap,
+  formatComment,
+  formatValue,
+  typescriptThemes,
+  typescriptTokens,
+};
@@ -0,0 +1,35 @@
+/**
+ * Motion modes for the tokens build.
+ *
+ * `src/motion/<name>.json` sets the `motion.*` durations that component
+ * transitions and animations use. `reduced` collapses them to `0ms`, so
+ * looping animations stop and components show their static state. It applies
+ * under `@media (prefers-reduced-motion: reduce)` and wherever
+ * `data-motion="reduced"` is set; `data-motion="full"` opts back in. Like
+ * densities, the values are literal so theme scopes never re-declare them,
+ * and `full` is also part of the light theme, which makes it the default.
+ */
+
+const defaultMotion = "full";
+
+const motions = [
+  {
+    name: "full",
+    selector: '[data-motion="full"]',
+    source: ["src/motion/full.json"],
+  },
+  {
+    name: "reduced",
+    selector: '[data-motion="reduced"]',
+    media: {
+      query: "(prefers-reduced-motion: reduce)",
+      selector: ":root",
+    },
+    source: ["src/motion/reduced.json"],
+  },
+];
+
+module.exports = {
+  defaultMotion,
+  motions,
+};
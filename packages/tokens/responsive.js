@@ -0,0 +1,141 @@
+/**
+ * Layout props that take responsive values, e.g.
+ * `gap={{ base: "sm", md: "lg" }}`.
+ *
+ * For every breakpoint token the build writes
+ * `freeui-<block>--<breakpoint>-<prop>-<value>` classes to
+ * `generated/responsive-<block>.css` in `@rockminster/css`, applying from
+ * that viewport width up, and for every container size token
+ * `freeui-<block>--container-<size>-<prop>-<value>` classes, applying once
+ * the nearest container is that wide. Each value's declaration matches the
+ * base `freeui-<block>--<prop>-<value>` class, so keep the two in step.
+ *
+ * An empty value key makes a bare `freeui-<block>--<scope>-<prop>` class
+ * for values the component passes as custom properties (grid areas);
+ * `{scope}` in its declaration becomes the breakpoint or `container-<size>`.
+ */
+
+/** `{ value: "property: css" }` for every value of a prop */
+function declarations(property, values) {
+  return Object.fromEntries(
+    Object.entries(values).map(([value, css]) => [value, `${property}: ${css}`])
+  );
+}
+
+const gap = declarations("gap", {
+  none: "0",
+  xs: "var(--freeui-gap-xs)",
+  sm: "var(--freeui-gap-sm)",
+  md: "var(--freeui-gap-md)",
+  lg: "var(--freeui-gap-lg)",
+  xl: "var(--freeui-gap-xl)",
+});
+
+const direction = declarations("flex-direction", {
+  row: "row",
+  column: "column",
+});
+
+const stackAlign = declarations("align-items", {
+  start: "flex-start",
+  center: "center",
+  end: "flex-end",
+  stretch: "stretch",
+});
+
+/** `{ "1": ..., "12": ... }` for counts from 1 to `max` */
+function counts(max, css) {
+  return Object.fromEntries(
+    Array.from({ length: max }, (_, index) => [
+      String(index + 1),
+      css(index + 1),
+    ])
+  );
+}
+
+const responsiveBlocks = [
+  {
+    block: "stack",
+    title: "Stack",
+    props: { gap, align: stackAlign, direction },
+  },
+  {
+    block: "inline",
+    title: "Inline",
+    props: {
+      gap,
+      justify: declarations("justify-content", {
+        start: "start",
+        center: "center",
+        end: "end",
+        "space-between": "space-between",
+        "space-around": "space-around",
+        "space-evenly": "space-evenly",
+      }),
+      align: {
+        ...stackAlign,
+        ...declarations("align-items", { baseline: "baseline" }),
+      },
+      direction,
+    },
+  },
+  {
+    block: "card",
+    title: "Card",
+    props: {
+      padding: declarations("padding", {
+        none: "0",
+        sm: "var(--freeui-inset-sm)",
+        md: "var(--freeui-inset-md)",
+        lg: "var(--freeui-inset-lg)",
+      }),
+    },
+  },
+  {
+    block: "grid",
+    title: "Grid",
+    props: {
+      gap,
+      columns: declarations(
+        "grid-template-columns",
+        counts(12, (count) => `repeat(${count}, minmax(0, 1fr))`)
+      ),
+      areas: {
+        "": "grid-template-areas: var(--freeui-grid-areas-{scope})",
+      },
+    },
+  },
+  {
+    block: "grid-item",
+    title: "GridItem",
+    props: {
+      "col-span": declarations("grid-column", {
+        ...counts(12, (count) => `span ${count} / span ${count}`),
+        full: "1 / -1",
+      }),
+      "row-span": declarations(
+        "grid-row",
+        counts(6, (count) => `span ${count} / span ${count}`)
+      ),
+    },
+  },
+  {
+    block: "separator",
+    title: "Separator",
+    // The orientation classes turn the size into block or inline margins
+    props: {
+      margin: declarations("--freeui-separator-margin", {
+        none: "0",
+        xs: "var(--freeui-spacing-1)",
+        sm: "var(--freeui-spacing-2)",
+        md: "var(--freeui-spacing-4)",
+        lg: "var(--freeui-spacing-6)",
+        xl: "var(--freeui-spacing-8)",
+      }),
+    },
+  },
+];
+
+module.exports = {
+  responsiveBlocks,
+};
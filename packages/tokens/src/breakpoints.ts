@@ -0,0 +1,12 @@
+/**
+ * Breakpoint and container size names, for APIs that take one value per
+ * viewport or container width.
+ */
+
+import type { breakpoints, containers } from "./generated/tokens";
+
+/** A breakpoint token name: `sm`, `md`, `lg`, `xl` or `2xl` */
+export type Breakpoint = keyof typeof breakpoints;
+
+/** A container size token name: `sm`, `md`, `lg` or `xl` */
+export type ContainerSize = keyof typeof containers;
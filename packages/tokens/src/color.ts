@@ -0,0 +1,147 @@
+/**
+ * Color parsing and OKLCH conversion shared by `checkContrast` and
+ * `createTheme`. Internal to the package.
+ */
+
+/** sRGB channels in the 0–255 range */
+export type Rgb = [number, number, number];
+
+/** OKLCH color: lightness 0–1, chroma 0–0.4, hue in degrees */
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * Parse an opaque hex (`#rgb`, `#rrggbb`) or `rgb()` color string.
+ */
+export function parseColor(color: string): Rgb {
+  const value = color.trim().toLowerCase();
+
+  const hex = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits =
+      hex[1].length <= 4
+        ? hex[1].replace(/./g, (digit) => digit + digit)
+        : hex[1];
+    if (digits.length === 8 && digits.slice(6) !== "ff") {
+      throw new Error(`Expected an opaque color, received "${color}"`);
+    }
+    return [0, 2, 4].map((start) =>
+      parseInt(digits.slice(start, start + 2), 16)
+    ) as Rgb;
+  }
+
+  const rgb = value.match(/^rgba?\(([^)]+)\)$/);
+  if (rgb) {
+    const channels = rgb[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(Number);
+    if (
+      channels.length < 3 ||
+      channels.some((channel) => Number.isNaN(channel))
+    ) {
+      throw new Error(`Unsupported color "${color}"`);
+    }
+    if (channels.length > 3 && channels[3] !== 1) {
+      throw new Error(`Expected an opaque color, received "${color}"`);
+    }
+    return channels.slice(0, 3) as Rgb;
+  }
+
+  throw new Error(`Unsupported color "${color}"`);
+}
+
+export function toHex(rgb: Rgb): string {
+  return (
+    "#" +
+    rgb
+      .map((channel) =>
+        Math.round(Math.min(255, Math.max(0, channel)))
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+/** sRGB channel (0–255) to linear light (0–1) */
+export function toLinear(channel: number): number {
+  const srgb = channel / 255;
+  return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(linear: number): number {
+  const srgb =
+    linear <= 0.0031308
+      ? linear * 12.92
+      : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  return srgb * 255;
+}
+
+export function rgbToOklch(rgb: Rgb): Oklch {
+  const [r, g, b] = rgb.map(toLinear);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const chroma = Math.sqrt(a * a + bAxis * bAxis);
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+  return {
+    l: lightness,
+    c: chroma,
+    h: chroma < 1e-4 ? 0 : (hue + 360) % 360,
+  };
+}
+
+/** Linear sRGB channels, which fall outside 0–1 for out-of-gamut colors */
+function oklchToLinear({ l, c, h }: Oklch): Rgb {
+  const hue = (h * Math.PI) / 180;
+  const a = c * Math.cos(hue);
+  const b = c * Math.sin(hue);
+
+  const lCone = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const mCone = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const sCone = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return [
+    4.0767416621 * lCone - 3.3077115913 * mCone + 0.2309699292 * sCone,
+    -1.2684380046 * lCone + 2.6097574011 * mCone - 0.3413193965 * sCone,
+    -0.0041960863 * lCone - 0.7034186147 * mCone + 1.707614701 * sCone,
+  ];
+}
+
+function inGamut(linear: Rgb): boolean {
+  return linear.every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+/**
+ * Convert to sRGB, reducing chroma until the color fits the gamut so the
+ * lightness and hue are preserved.
+ */
+export function oklchToRgb(color: Oklch): Rgb {
+  let linear = oklchToLinear(color);
+  if (!inGamut(linear)) {
+    let low = 0;
+    let high = color.c;
+    for (let i = 0; i < 20; i++) {
+      const chroma = (low + high) / 2;
+      if (inGamut(oklchToLinear({ ...color, c: chroma }))) {
+        low = chroma;
+      } else {
+        high = chroma;
+      }
+    }
+    linear = oklchToLinear({ ...color, c: low });
+  }
+  return linear.map((channel) =>
+    fromLinear(Math.min(1, Math.max(0, channel)))
+  ) as Rgb;
+}
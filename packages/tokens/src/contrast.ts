@@ -0,0 +1,54 @@
+/**
+ * WCAG 2.x contrast checking for token colors.
+ *
+ * The same ratio is enforced at build time by the contrast audit that runs
+ * during `build:tokens` (see `actions/contrast-audit.js`).
+ */
+
+import { parseColor, toLinear, type Rgb } from "./color";
+
+/**
+ * Result of comparing a foreground color against a background color
+ */
+export interface ContrastResult {
+  /** Contrast ratio between 1 and 21 */
+  ratio: number;
+  /** Meets AA for normal text (4.5:1) */
+  aa: boolean;
+  /** Meets AA for large text and UI components (3:1) */
+  aaLarge: boolean;
+  /** Meets AAA for normal text (7:1) */
+  aaa: boolean;
+  /** Meets AAA for large text (4.5:1) */
+  aaaLarge: boolean;
+}
+
+function relativeLuminance(rgb: Rgb): number {
+  const [red, green, blue] = rgb.map(toLinear);
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * Compute the WCAG 2.x contrast ratio of two opaque colors.
+ * Accepts hex (`#rgb`, `#rrggbb`) and `rgb()` strings, e.g. the values
+ * exported in `colors`.
+ *
+ * @example
+ * checkContrast(colors.white, colors.brand[700]).aa; // true
+ */
+export function checkContrast(
+  foreground: string,
+  background: string
+): ContrastResult {
+  const fg = relativeLuminance(parseColor(foreground));
+  const bg = relativeLuminance(parseColor(background));
+  const ratio = (Math.max(fg, bg) + 0.05) / (Math.min(fg, bg) + 0.05);
+
+  return {
+    ratio,
+    aa: ratio >= 4.5,
+    aaLarge: ratio >= 3,
+    aaa: ratio >= 7,
+    aaaLarge: ratio >= 4.5,
+  };
+}
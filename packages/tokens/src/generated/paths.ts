@@ -0,0 +1,274 @@
+/**
+ * Token paths for FreeUI design system
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+/**
+ * Dot-separated path of every token, e.g. `"color.semantic.error.600"`
+ */
+export const tokenPaths = [
+  "font-family.sans",
+  "font-family.mono",
+  "font-size.xs",
+  "font-size.sm",
+  "font-size.base",
+  "font-size.lg",
+  "font-size.xl",
+  "font-size.2xl",
+  "font-size.3xl",
+  "font-size.4xl",
+  "font-size.5xl",
+  "font-size.6xl",
+  "font-size-fluid.lg",
+  "font-size-fluid.xl",
+  "font-size-fluid.2xl",
+  "font-size-fluid.3xl",
+  "font-size-fluid.4xl",
+  "font-size-fluid.5xl",
+  "font-size-fluid.6xl",
+  "font-weight.normal",
+  "font-weight.medium",
+  "font-weight.semibold",
+  "font-weight.bold",
+  "line-height.tight",
+  "line-height.normal",
+  "line-height.relaxed",
+  "letter-spacing.tight",
+  "letter-spacing.normal",
+  "letter-spacing.wide",
+  "breakpoint.sm",
+  "breakpoint.md",
+  "breakpoint.lg",
+  "breakpoint.xl",
+  "breakpoint.2xl",
+  "viewport.min",
+  "viewport.max",
+  "container.sm",
+  "container.md",
+  "container.lg",
+  "container.xl",
+  "spacing.0",
+  "spacing.1",
+  "spacing.2",
+  "spacing.3",
+  "spacing.4",
+  "spacing.5",
+  "spacing.6",
+  "spacing.8",
+  "spacing.10",
+  "spacing.12",
+  "spacing.16",
+  "spacing.20",
+  "spacing.24",
+  "spacing.32",
+  "spacing.40",
+  "spacing.48",
+  "spacing.56",
+  "spacing.64",
+  "border-radius.none",
+  "border-radius.sm",
+  "border-radius.base",
+  "border-radius.md",
+  "border-radius.lg",
+  "border-radius.xl",
+  "border-radius.2xl",
+  "border-radius.3xl",
+  "border-radius.full",
+  "border-width.default",
+  "border-width.strong",
+  "focus-ring.width",
+  "focus-ring.offset",
+  "shadow.none",
+  "shadow.sm",
+  "shadow.base",
+  "shadow.md",
+  "shadow.lg",
+  "shadow.xl",
+  "shadow.2xl",
+  "shadow.inner",
+  "duration.fast",
+  "duration.normal",
+  "duration.slow",
+  "easing.linear",
+  "easing.ease",
+  "easing.ease-in",
+  "easing.ease-out",
+  "easing.ease-in-out",
+  "z-index.dropdown",
+  "z-index.sticky",
+  "z-index.overlay",
+  "z-index.modal",
+  "z-index.toast",
+  "z-index.tooltip",
+  "control.height.xs",
+  "control.height.sm",
+  "control.height.md",
+  "control.height.lg",
+  "control.padding-x.xs",
+  "control.padding-x.sm",
+  "control.padding-x.md",
+  "control.padding-x.lg",
+  "control.padding-y.xs",
+  "control.padding-y.sm",
+  "control.padding-y.md",
+  "control.padding-y.lg",
+  "control.font-size.xs",
+  "control.font-size.sm",
+  "control.font-size.md",
+  "control.font-size.lg",
+  "gap.xs",
+  "gap.sm",
+  "gap.md",
+  "gap.lg",
+  "gap.xl",
+  "inset.sm",
+  "inset.md",
+  "inset.lg",
+  "motion.duration.fast",
+  "motion.duration.normal",
+  "motion.duration.slow",
+  "motion.loop.spin",
+  "motion.loop.pulse",
+  "motion.loop.indeterminate",
+  "color.brand.50",
+  "color.brand.100",
+  "color.brand.200",
+  "color.brand.300",
+  "color.brand.400",
+  "color.brand.500",
+  "color.brand.600",
+  "color.brand.700",
+  "color.brand.800",
+  "color.brand.900",
+  "color.brand.950",
+  "color.neutral.50",
+  "color.neutral.100",
+  "color.neutral.200",
+  "color.neutral.300",
+  "color.neutral.400",
+  "color.neutral.500",
+  "color.neutral.600",
+  "color.neutral.700",
+  "color.neutral.800",
+  "color.neutral.900",
+  "color.neutral.950",
+  "color.semantic.success.50",
+  "color.semantic.success.400",
+  "color.semantic.success.500",
+  "color.semantic.success.600",
+  "color.semantic.success.700",
+  "color.semantic.success.800",
+  "color.semantic.warning.50",
+  "color.semantic.warning.400",
+  "color.semantic.warning.500",
+  "color.semantic.warning.600",
+  "color.semantic.warning.700",
+  "color.semantic.warning.800",
+  "color.semantic.error.50",
+  "color.semantic.error.400",
+  "color.semantic.error.500",
+  "color.semantic.error.600",
+  "color.semantic.error.700",
+  "color.semantic.error.800",
+  "color.semantic.info.50",
+  "color.semantic.info.400",
+  "color.semantic.info.500",
+  "color.semantic.info.600",
+  "color.semantic.info.700",
+  "color.semantic.info.800",
+  "color.white",
+  "color.black",
+  "color.transparent",
+  "color.text.default",
+  "color.text.secondary",
+  "color.text.subdued",
+  "color.text.placeholder",
+  "color.text.disabled",
+  "color.text.accent",
+  "color.text.on-solid",
+  "color.surface.default",
+  "color.surface.raised",
+  "color.surface.subtle",
+  "color.surface.muted",
+  "color.surface.strong",
+  "color.surface.disabled",
+  "color.border.default",
+  "color.border.strong",
+  "color.border.interactive",
+  "color.border.disabled",
+  "color.border.focus",
+  "color.intent.accent.bg",
+  "color.intent.accent.bg-hover",
+  "color.intent.accent.fg",
+  "color.intent.accent.border",
+  "color.intent.accent.solid",
+  "color.intent.accent.solid-hover",
+  "color.intent.accent.solid-active",
+  "color.intent.neutral.bg",
+  "color.intent.neutral.bg-hover",
+  "color.intent.neutral.fg",
+  "color.intent.neutral.border",
+  "color.intent.neutral.solid",
+  "color.intent.neutral.solid-hover",
+  "color.intent.neutral.solid-active",
+  "color.intent.success.bg",
+  "color.intent.success.fg",
+  "color.intent.success.border",
+  "color.intent.success.solid",
+  "color.intent.success.solid-hover",
+  "color.intent.success.solid-active",
+  "color.intent.warning.bg",
+  "color.intent.warning.fg",
+  "color.intent.warning.border",
+  "color.intent.warning.solid",
+  "color.intent.warning.solid-hover",
+  "color.intent.warning.solid-active",
+  "color.intent.danger.bg",
+  "color.intent.danger.fg",
+  "color.intent.danger.border",
+  "color.intent.danger.solid",
+  "color.intent.danger.solid-hover",
+  "color.intent.danger.solid-active",
+  "color.intent.info.bg",
+  "color.intent.info.fg",
+  "color.intent.info.border",
+  "color.intent.info.solid",
+  "color.intent.info.solid-hover",
+  "color.intent.info.solid-active",
+  "color.data.categorical.1",
+  "color.data.categorical.2",
+  "color.data.categorical.3",
+  "color.data.categorical.4",
+  "color.data.categorical.5",
+  "color.data.categorical.6",
+  "color.data.categorical.7",
+  "color.data.categorical.8",
+  "color.data.categorical.9",
+  "color.data.categorical.10",
+  "color.data.sequential.1",
+  "color.data.sequential.2",
+  "color.data.sequential.3",
+  "color.data.sequential.4",
+  "color.data.sequential.5",
+  "color.data.sequential.6",
+  "color.data.sequential.7",
+  "color.data.sequential.8",
+  "color.data.sequential.9",
+  "color.data.diverging.1",
+  "color.data.diverging.2",
+  "color.data.diverging.3",
+  "color.data.diverging.4",
+  "color.data.diverging.5",
+  "color.data.diverging.6",
+  "color.data.diverging.7",
+  "color.data.diverging.8",
+  "color.data.diverging.9",
+  "elevation.raised.shadow",
+  "elevation.raised.surface",
+  "elevation.overlay.shadow",
+  "elevation.overlay.surface",
+  "elevation.modal.shadow",
+  "elevation.modal.surface",
+] as const;
+
+export type TokenPath = (typeof tokenPaths)[number];
@@ -0,0 +1,289 @@
+/**
+ * Tailwind CSS preset for FreeUI design system
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+/**
+ * Tailwind CSS theme scales resolving to FreeUI CSS custom properties
+ */
+export const tailwindTheme = {
+  colors: {
+    brand: {
+      50: "color-mix(in srgb, var(--freeui-color-brand-50) calc(<alpha-value> * 100%), transparent)",
+      100: "color-mix(in srgb, var(--freeui-color-brand-100) calc(<alpha-value> * 100%), transparent)",
+      200: "color-mix(in srgb, var(--freeui-color-brand-200) calc(<alpha-value> * 100%), transparent)",
+      300: "color-mix(in srgb, var(--freeui-color-brand-300) calc(<alpha-value> * 100%), transparent)",
+      400: "color-mix(in srgb, var(--freeui-color-brand-400) calc(<alpha-value> * 100%), transparent)",
+      500: "color-mix(in srgb, var(--freeui-color-brand-500) calc(<alpha-value> * 100%), transparent)",
+      600: "color-mix(in srgb, var(--freeui-color-brand-600) calc(<alpha-value> * 100%), transparent)",
+      700: "color-mix(in srgb, var(--freeui-color-brand-700) calc(<alpha-value> * 100%), transparent)",
+      800: "color-mix(in srgb, var(--freeui-color-brand-800) calc(<alpha-value> * 100%), transparent)",
+      900: "color-mix(in srgb, var(--freeui-color-brand-900) calc(<alpha-value> * 100%), transparent)",
+      950: "color-mix(in srgb, var(--freeui-color-brand-950) calc(<alpha-value> * 100%), transparent)",
+    },
+    neutral: {
+      50: "color-mix(in srgb, var(--freeui-color-neutral-50) calc(<alpha-value> * 100%), transparent)",
+      100: "color-mix(in srgb, var(--freeui-color-neutral-100) calc(<alpha-value> * 100%), transparent)",
+      200: "color-mix(in srgb, var(--freeui-color-neutral-200) calc(<alpha-value> * 100%), transparent)",
+      300: "color-mix(in srgb, var(--freeui-color-neutral-300) calc(<alpha-value> * 100%), transparent)",
+      400: "color-mix(in srgb, var(--freeui-color-neutral-400) calc(<alpha-value> * 100%), transparent)",
+      500: "color-mix(in srgb, var(--freeui-color-neutral-500) calc(<alpha-value> * 100%), transparent)",
+      600: "color-mix(in srgb, var(--freeui-color-neutral-600) calc(<alpha-value> * 100%), transparent)",
+      700: "color-mix(in srgb, var(--freeui-color-neutral-700) calc(<alpha-value> * 100%), transparent)",
+      800: "color-mix(in srgb, var(--freeui-color-neutral-800) calc(<alpha-value> * 100%), transparent)",
+      900: "color-mix(in srgb, var(--freeui-color-neutral-900) calc(<alpha-value> * 100%), transparent)",
+      950: "color-mix(in srgb, var(--freeui-color-neutral-950) calc(<alpha-value> * 100%), transparent)",
+    },
+    semantic: {
+      success: {
+        50: "color-mix(in srgb, var(--freeui-color-semantic-success-50) calc(<alpha-value> * 100%), transparent)",
+        400: "color-mix(in srgb, var(--freeui-color-semantic-success-400) calc(<alpha-value> * 100%), transparent)",
+        500: "color-mix(in srgb, var(--freeui-color-semantic-success-500) calc(<alpha-value> * 100%), transparent)",
+        600: "color-mix(in srgb, var(--freeui-color-semantic-success-600) calc(<alpha-value> * 100%), transparent)",
+        700: "color-mix(in srgb, var(--freeui-color-semantic-success-700) calc(<alpha-value> * 100%), transparent)",
+        800: "color-mix(in srgb, var(--freeui-color-semantic-success-800) calc(<alpha-value> * 100%), transparent)",
+      },
+      warning: {
+        50: "color-mix(in srgb, var(--freeui-color-semantic-warning-50) calc(<alpha-value> * 100%), transparent)",
+        400: "color-mix(in srgb, var(--freeui-color-semantic-warning-400) calc(<alpha-value> * 100%), transparent)",
+        500: "color-mix(in srgb, var(--freeui-color-semantic-warning-500) calc(<alpha-value> * 100%), transparent)",
+        600: "color-mix(in srgb, var(--freeui-color-semantic-warning-600) calc(<alpha-value> * 100%), transparent)",
+        700: "color-mix(in srgb, var(--freeui-color-semantic-warning-700) calc(<alpha-value> * 100%), transparent)",
+        800: "color-mix(in srgb, var(--freeui-color-semantic-warning-800) calc(<alpha-value> * 100%), transparent)",
+      },
+      error: {
+        50: "color-mix(in srgb, var(--freeui-color-semantic-error-50) calc(<alpha-value> * 100%), transparent)",
+        400: "color-mix(in srgb, var(--freeui-color-semantic-error-400) calc(<alpha-value> * 100%), transparent)",
+        500: "color-mix(in srgb, var(--freeui-color-semantic-error-500) calc(<alpha-value> * 100%), transparent)",
+        600: "color-mix(in srgb, var(--freeui-color-semantic-error-600) calc(<alpha-value> * 100%), transparent)",
+        700: "color-mix(in srgb, var(--freeui-color-semantic-error-700) calc(<alpha-value> * 100%), transparent)",
+        800: "color-mix(in srgb, var(--freeui-color-semantic-error-800) calc(<alpha-value> * 100%), transparent)",
+      },
+      info: {
+        50: "color-mix(in srgb, var(--freeui-color-semantic-info-50) calc(<alpha-value> * 100%), transparent)",
+        400: "color-mix(in srgb, var(--freeui-color-semantic-info-400) calc(<alpha-value> * 100%), transparent)",
+        500: "color-mix(in srgb, var(--freeui-color-semantic-info-500) calc(<alpha-value> * 100%), transparent)",
+        600: "color-mix(in srgb, var(--freeui-color-semantic-info-600) calc(<alpha-value> * 100%), transparent)",
+        700: "color-mix(in srgb, var(--freeui-color-semantic-info-700) calc(<alpha-value> * 100%), transparent)",
+        800: "color-mix(in srgb, var(--freeui-color-semantic-info-800) calc(<alpha-value> * 100%), transparent)",
+      },
+    },
+    white: "color-mix(in srgb, var(--freeui-color-white) calc(<alpha-value> * 100%), transparent)",
+    black: "color-mix(in srgb, var(--freeui-color-black) calc(<alpha-value> * 100%), transparent)",
+    transparent: "transparent",
+    text: {
+      default: "color-mix(in srgb, var(--freeui-color-text-default) calc(<alpha-value> * 100%), transparent)",
+      secondary: "color-mix(in srgb, var(--freeui-color-text-secondary) calc(<alpha-value> * 100%), transparent)",
+      subdued: "color-mix(in srgb, var(--freeui-color-text-subdued) calc(<alpha-value> * 100%), transparent)",
+      placeholder: "color-mix(in srgb, var(--freeui-color-text-placeholder) calc(<alpha-value> * 100%), transparent)",
+      disabled: "color-mix(in srgb, var(--freeui-color-text-disabled) calc(<alpha-value> * 100%), transparent)",
+      accent: "color-mix(in srgb, var(--freeui-color-text-accent) calc(<alpha-value> * 100%), transparent)",
+      "on-solid": "color-mix(in srgb, var(--freeui-color-text-on-solid) calc(<alpha-value> * 100%), transparent)",
+    },
+    surface: {
+      default: "color-mix(in srgb, var(--freeui-color-surface-default) calc(<alpha-value> * 100%), transparent)",
+      raised: "color-mix(in srgb, var(--freeui-color-surface-raised) calc(<alpha-value> * 100%), transparent)",
+      subtle: "color-mix(in srgb, var(--freeui-color-surface-subtle) calc(<alpha-value> * 100%), transparent)",
+      muted: "color-mix(in srgb, var(--freeui-color-surface-muted) calc(<alpha-value> * 100%), transparent)",
+      strong: "color-mix(in srgb, var(--freeui-color-surface-strong) calc(<alpha-value> * 100%), transparent)",
+      disabled: "color-mix(in srgb, var(--freeui-color-surface-disabled) calc(<alpha-value> * 100%), transparent)",
+    },
+    border: {
+      default: "color-mix(in srgb, var(--freeui-color-border-default) calc(<alpha-value> * 100%), transparent)",
+      strong: "color-mix(in srgb, var(--freeui-color-border-strong) calc(<alpha-value> * 100%), transparent)",
+      interactive: "color-mix(in srgb, var(--freeui-color-border-interactive) calc(<alpha-value> * 100%), transparent)",
+      disabled: "color-mix(in srgb, var(--freeui-color-border-disabled) calc(<alpha-value> * 100%), transparent)",
+      focus: "color-mix(in srgb, var(--freeui-color-border-focus) calc(<alpha-value> * 100%), transparent)",
+    },
+    intent: {
+      accent: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-accent-bg) calc(<alpha-value> * 100%), transparent)",
+        "bg-hover": "color-mix(in srgb, var(--freeui-color-intent-accent-bg-hover) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-accent-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-accent-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-accent-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-accent-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-accent-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+      neutral: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-neutral-bg) calc(<alpha-value> * 100%), transparent)",
+        "bg-hover": "color-mix(in srgb, var(--freeui-color-intent-neutral-bg-hover) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-neutral-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-neutral-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-neutral-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-neutral-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-neutral-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+      success: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-success-bg) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-success-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-success-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-success-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-success-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-success-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+      warning: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-warning-bg) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-warning-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-warning-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-warning-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-warning-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-warning-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+      danger: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-danger-bg) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-danger-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-danger-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-danger-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-danger-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-danger-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+      info: {
+        bg: "color-mix(in srgb, var(--freeui-color-intent-info-bg) calc(<alpha-value> * 100%), transparent)",
+        fg: "color-mix(in srgb, var(--freeui-color-intent-info-fg) calc(<alpha-value> * 100%), transparent)",
+        border: "color-mix(in srgb, var(--freeui-color-intent-info-border) calc(<alpha-value> * 100%), transparent)",
+        solid: "color-mix(in srgb, var(--freeui-color-intent-info-solid) calc(<alpha-value> * 100%), transparent)",
+        "solid-hover": "color-mix(in srgb, var(--freeui-color-intent-info-solid-hover) calc(<alpha-value> * 100%), transparent)",
+        "solid-active": "color-mix(in srgb, var(--freeui-color-intent-info-solid-active) calc(<alpha-value> * 100%), transparent)",
+      },
+    },
+    data: {
+      categorical: {
+        1: "color-mix(in srgb, var(--freeui-color-data-categorical-1) calc(<alpha-value> * 100%), transparent)",
+        2: "color-mix(in srgb, var(--freeui-color-data-categorical-2) calc(<alpha-value> * 100%), transparent)",
+        3: "color-mix(in srgb, var(--freeui-color-data-categorical-3) calc(<alpha-value> * 100%), transparent)",
+        4: "color-mix(in srgb, var(--freeui-color-data-categorical-4) calc(<alpha-value> * 100%), transparent)",
+        5: "color-mix(in srgb, var(--freeui-color-data-categorical-5) calc(<alpha-value> * 100%), transparent)",
+        6: "color-mix(in srgb, var(--freeui-color-data-categorical-6) calc(<alpha-value> * 100%), transparent)",
+        7: "color-mix(in srgb, var(--freeui-color-data-categorical-7) calc(<alpha-value> * 100%), transparent)",
+        8: "color-mix(in srgb, var(--freeui-color-data-categorical-8) calc(<alpha-value> * 100%), transparent)",
+        9: "color-mix(in srgb, var(--freeui-color-data-categorical-9) calc(<alpha-value> * 100%), transparent)",
+        10: "color-mix(in srgb, var(--freeui-color-data-categorical-10) calc(<alpha-value> * 100%), transparent)",
+      },
+      sequential: {
+        1: "color-mix(in srgb, var(--freeui-color-data-sequential-1) calc(<alpha-value> * 100%), transparent)",
+        2: "color-mix(in srgb, var(--freeui-color-data-sequential-2) calc(<alpha-value> * 100%), transparent)",
+        3: "color-mix(in srgb, var(--freeui-color-data-sequential-3) calc(<alpha-value> * 100%), transparent)",
+        4: "color-mix(in srgb, var(--freeui-color-data-sequential-4) calc(<alpha-value> * 100%), transparent)",
+        5: "color-mix(in srgb, var(--freeui-color-data-sequential-5) calc(<alpha-value> * 100%), transparent)",
+        6: "color-mix(in srgb, var(--freeui-color-data-sequential-6) calc(<alpha-value> * 100%), transparent)",
+        7: "color-mix(in srgb, var(--freeui-color-data-sequential-7) calc(<alpha-value> * 100%), transparent)",
+        8: "color-mix(in srgb, var(--freeui-color-data-sequential-8) calc(<alpha-value> * 100%), transparent)",
+        9: "color-mix(in srgb, var(--freeui-color-data-sequential-9) calc(<alpha-value> * 100%), transparent)",
+      },
+      diverging: {
+        1: "color-mix(in srgb, var(--freeui-color-data-diverging-1) calc(<alpha-value> * 100%), transparent)",
+        2: "color-mix(in srgb, var(--freeui-color-data-diverging-2) calc(<alpha-value> * 100%), transparent)",
+        3: "color-mix(in srgb, var(--freeui-color-data-diverging-3) calc(<alpha-value> * 100%), transparent)",
+        4: "color-mix(in srgb, var(--freeui-color-data-diverging-4) calc(<alpha-value> * 100%), transparent)",
+        5: "color-mix(in srgb, var(--freeui-color-data-diverging-5) calc(<alpha-value> * 100%), transparent)",
+        6: "color-mix(in srgb, var(--freeui-color-data-diverging-6) calc(<alpha-value> * 100%), transparent)",
+        7: "color-mix(in srgb, var(--freeui-color-data-diverging-7) calc(<alpha-value> * 100%), transparent)",
+        8: "color-mix(in srgb, var(--freeui-color-data-diverging-8) calc(<alpha-value> * 100%), transparent)",
+        9: "color-mix(in srgb, var(--freeui-color-data-diverging-9) calc(<alpha-value> * 100%), transparent)",
+      },
+    },
+    inherit: "inherit",
+    current: "currentColor",
+  },
+  spacing: {
+    0: "var(--freeui-spacing-0)",
+    1: "var(--freeui-spacing-1)",
+    2: "var(--freeui-spacing-2)",
+    3: "var(--freeui-spacing-3)",
+    4: "var(--freeui-spacing-4)",
+    5: "var(--freeui-spacing-5)",
+    6: "var(--freeui-spacing-6)",
+    8: "var(--freeui-spacing-8)",
+    10: "var(--freeui-spacing-10)",
+    12: "var(--freeui-spacing-12)",
+    16: "var(--freeui-spacing-16)",
+    20: "var(--freeui-spacing-20)",
+    24: "var(--freeui-spacing-24)",
+    32: "var(--freeui-spacing-32)",
+    40: "var(--freeui-spacing-40)",
+    48: "var(--freeui-spacing-48)",
+    56: "var(--freeui-spacing-56)",
+    64: "var(--freeui-spacing-64)",
+  },
+  borderRadius: {
+    DEFAULT: "var(--freeui-border-radius-base)",
+    none: "var(--freeui-border-radius-none)",
+    sm: "var(--freeui-border-radius-sm)",
+    base: "var(--freeui-border-radius-base)",
+    md: "var(--freeui-border-radius-md)",
+    lg: "var(--freeui-border-radius-lg)",
+    xl: "var(--freeui-border-radius-xl)",
+    "2xl": "var(--freeui-border-radius-2xl)",
+    "3xl": "var(--freeui-border-radius-3xl)",
+    full: "var(--freeui-border-radius-full)",
+  },
+  borderWidth: {
+    DEFAULT: "var(--freeui-border-width-default)",
+    default: "var(--freeui-border-width-default)",
+    strong: "var(--freeui-border-width-strong)",
+  },
+  boxShadow: {
+    DEFAULT: "var(--freeui-shadow-base)",
+    none: "var(--freeui-shadow-none)",
+    sm: "var(--freeui-shadow-sm)",
+    base: "var(--freeui-shadow-base)",
+    md: "var(--freeui-shadow-md)",
+    lg: "var(--freeui-shadow-lg)",
+    xl: "var(--freeui-shadow-xl)",
+    "2xl": "var(--freeui-shadow-2xl)",
+    inner: "var(--freeui-shadow-inner)",
+  },
+  fontFamily: {
+    sans: "var(--freeui-font-family-sans)",
+    mono: "var(--freeui-font-family-mono)",
+  },
+  fontSize: {
+    xs: "var(--freeui-font-size-xs)",
+    sm: "var(--freeui-font-size-sm)",
+    base: "var(--freeui-font-size-base)",
+    lg: "var(--freeui-font-size-lg)",
+    xl: "var(--freeui-font-size-xl)",
+    "2xl": "var(--freeui-font-size-2xl)",
+    "3xl": "var(--freeui-font-size-3xl)",
+    "4xl": "var(--freeui-font-size-4xl)",
+    "5xl": "var(--freeui-font-size-5xl)",
+    "6xl": "var(--freeui-font-size-6xl)",
+  },
+  fontWeight: {
+    normal: "var(--freeui-font-weight-normal)",
+    medium: "var(--freeui-font-weight-medium)",
+    semibold: "var(--freeui-font-weight-semibold)",
+    bold: "var(--freeui-font-weight-bold)",
+  },
+  lineHeight: {
+    tight: "var(--freeui-line-height-tight)",
+    normal: "var(--freeui-line-height-normal)",
+    relaxed: "var(--freeui-line-height-relaxed)",
+  },
+  letterSpacing: {
+    tight: "var(--freeui-letter-spacing-tight)",
+    normal: "var(--freeui-letter-spacing-normal)",
+    wide: "var(--freeui-letter-spacing-wide)",
+  },
+  transitionDuration: {
+    fast: "var(--freeui-motion-duration-fast)",
+    normal: "var(--freeui-motion-duration-normal)",
+    slow: "var(--freeui-motion-duration-slow)",
+  },
+  transitionTimingFunction: {
+    linear: "var(--freeui-easing-linear)",
+    ease: "var(--freeui-easing-ease)",
+    "ease-in": "var(--freeui-easing-ease-in)",
+    "ease-out": "var(--freeui-easing-ease-out)",
+    "ease-in-out": "var(--freeui-easing-ease-in-out)",
+  },
+  zIndex: {
+    dropdown: "var(--freeui-z-index-dropdown)",
+    sticky: "var(--freeui-z-index-sticky)",
+    overlay: "var(--freeui-z-index-overlay)",
+    modal: "var(--freeui-z-index-modal)",
+    toast: "var(--freeui-z-index-toast)",
+    tooltip: "var(--freeui-z-index-tooltip)",
+  },
+} as const;
@@ -0,0 +1,27 @@
+/**
+ * Themes and densities built into @rockminster/css
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+/**
+ * Names accepted by the `data-theme` attribute
+ */
+export const themeNames = [
+  "light",
+  "dark",
+  "high-contrast-light",
+  "high-contrast-dark",
+] as const;
+
+export type ThemeName = (typeof themeNames)[number];
+
+/**
+ * Names accepted by the `data-density` attribute
+ */
+export const densityNames = [
+  "compact",
+  "comfortable",
+  "spacious",
+] as const;
+
+export type Density = (typeof densityNames)[number];
@@ -0,0 +1,449 @@
+/**
+ * Design tokens for FreeUI design system
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+/**
+ * Color tokens for FreeUI design system
+ * WCAG AA compliant color palette
+ */
+export const colors = {
+  brand: {
+    50: "#f0f9ff",
+    100: "#e0f2fe",
+    200: "#bae6fd",
+    300: "#7dd3fc",
+    400: "#38bdf8",
+    500: "#0ea5e9",
+    600: "#0284c7",
+    700: "#0369a1",
+    800: "#075985",
+    900: "#0c4a6e",
+    950: "#082f49",
+  },
+  neutral: {
+    50: "#f8fafc",
+    100: "#f1f5f9",
+    200: "#e2e8f0",
+    300: "#cbd5e1",
+    400: "#94a3b8",
+    500: "#64748b",
+    600: "#475569",
+    700: "#334155",
+    800: "#1e293b",
+    900: "#0f172a",
+    950: "#020617",
+  },
+  semantic: {
+    success: {
+      50: "#f0fdf4",
+      400: "#4ade80",
+      500: "#22c55e",
+      600: "#16a34a",
+      700: "#15803d",
+      800: "#166534",
+    },
+    warning: {
+      50: "#fffbeb",
+      400: "#fbbf24",
+      500: "#f59e0b",
+      600: "#d97706",
+      700: "#b45309",
+      800: "#92400e",
+    },
+    error: {
+      50: "#fef2f2",
+      400: "#f87171",
+      500: "#ef4444",
+      600: "#dc2626",
+      700: "#b91c1c",
+      800: "#991b1b",
+    },
+    info: {
+      50: "#eff6ff",
+      400: "#60a5fa",
+      500: "#3b82f6",
+      600: "#2563eb",
+      700: "#1d4ed8",
+      800: "#1e40af",
+    },
+  },
+  white: "#ffffff",
+  black: "#000000",
+  transparent: "transparent",
+  text: {
+    default: "#0f172a",
+    secondary: "#334155",
+    subdued: "#475569",
+    placeholder: "#64748b",
+    disabled: "#94a3b8",
+    accent: "#0369a1",
+    "on-solid": "#ffffff",
+  },
+  surface: {
+    default: "#ffffff",
+    raised: "#ffffff",
+    subtle: "#f8fafc",
+    muted: "#f1f5f9",
+    strong: "#e2e8f0",
+    disabled: "#f1f5f9",
+  },
+  border: {
+    default: "#e2e8f0",
+    strong: "#cbd5e1",
+    interactive: "#94a3b8",
+    disabled: "#e2e8f0",
+    focus: "#0284c7",
+  },
+  intent: {
+    accent: {
+      bg: "#f0f9ff",
+      "bg-hover": "#e0f2fe",
+      fg: "#0369a1",
+      border: "#0ea5e9",
+      solid: "#0369a1",
+      "solid-hover": "#075985",
+      "solid-active": "#0c4a6e",
+    },
+    neutral: {
+      bg: "#f1f5f9",
+      "bg-hover": "#e2e8f0",
+      fg: "#334155",
+      border: "#cbd5e1",
+      solid: "#475569",
+      "solid-hover": "#334155",
+      "solid-active": "#1e293b",
+    },
+    success: {
+      bg: "#f0fdf4",
+      fg: "#15803d",
+      border: "#22c55e",
+      solid: "#15803d",
+      "solid-hover": "#166534",
+      "solid-active": "#166534",
+    },
+    warning: {
+      bg: "#fffbeb",
+      fg: "#b45309",
+      border: "#f59e0b",
+      solid: "#b45309",
+      "solid-hover": "#92400e",
+      "solid-active": "#92400e",
+    },
+    danger: {
+      bg: "#fef2f2",
+      fg: "#b91c1c",
+      border: "#ef4444",
+      solid: "#dc2626",
+      "solid-hover": "#b91c1c",
+      "solid-active": "#b91c1c",
+    },
+    info: {
+      bg: "#eff6ff",
+      fg: "#1d4ed8",
+      border: "#3b82f6",
+      solid: "#2563eb",
+      "solid-hover": "#1d4ed8",
+      "solid-active": "#1d4ed8",
+    },
+  },
+  data: {
+    categorical: {
+      1: "#2563eb",
+      2: "#ea580c",
+      3: "#3730a3",
+      4: "#92400e",
+      5: "#047857",
+      6: "#0891b2",
+      7: "#7e22ce",
+      8: "#be123c",
+      9: "#115e59",
+      10: "#db2777",
+    },
+    sequential: {
+      1: "#dbeafe",
+      2: "#bfdbfe",
+      3: "#93c5fd",
+      4: "#60a5fa",
+      5: "#3b82f6",
+      6: "#2563eb",
+      7: "#1d4ed8",
+      8: "#1e40af",
+      9: "#1e3a8a",
+    },
+    diverging: {
+      1: "#9a3412",
+      2: "#ea580c",
+      3: "#fb923c",
+      4: "#fed7aa",
+      5: "#f1f5f9",
+      6: "#bfdbfe",
+      7: "#60a5fa",
+      8: "#2563eb",
+      9: "#1e3a8a",
+    },
+  },
+} as const;
+
+/**
+ * Typography tokens
+ */
+export const typography = {
+  fontFamily: {
+    sans: [
+      "ui-sans-serif",
+      "system-ui",
+      "-apple-system",
+      "BlinkMacSystemFont",
+      "Segoe UI",
+      "Roboto",
+      "Helvetica Neue",
+      "Arial",
+      "Noto Sans",
+      "sans-serif",
+    ],
+    mono: [
+      "ui-monospace",
+      "SFMono-Regular",
+      "Menlo",
+      "Monaco",
+      "Consolas",
+      "Liberation Mono",
+      "Courier New",
+      "monospace",
+    ],
+  },
+  fontSize: {
+    xs: "0.75rem",
+    sm: "0.875rem",
+    base: "1rem",
+    lg: "1.125rem",
+    xl: "1.25rem",
+    "2xl": "1.5rem",
+    "3xl": "1.875rem",
+    "4xl": "2.25rem",
+    "5xl": "3rem",
+    "6xl": "3.75rem",
+  },
+  fontSizeFluid: {
+    lg: "clamp(1rem, 0.9583rem + 0.2083vw, 1.125rem)",
+    xl: "clamp(1.125rem, 1.0833rem + 0.2083vw, 1.25rem)",
+    "2xl": "clamp(1.25rem, 1.1667rem + 0.4167vw, 1.5rem)",
+    "3xl": "clamp(1.5rem, 1.375rem + 0.625vw, 1.875rem)",
+    "4xl": "clamp(1.875rem, 1.75rem + 0.625vw, 2.25rem)",
+    "5xl": "clamp(1.875rem, 1.5rem + 1.875vw, 3rem)",
+    "6xl": "clamp(2.25rem, 1.75rem + 2.5vw, 3.75rem)",
+  },
+  fontWeight: {
+    normal: 400,
+    medium: 500,
+    semibold: 600,
+    bold: 700,
+  },
+  lineHeight: {
+    tight: 1.25,
+    normal: 1.5,
+    relaxed: 1.75,
+  },
+  letterSpacing: {
+    tight: "-0.025em",
+    normal: "0em",
+    wide: "0.025em",
+  },
+} as const;
+
+/**
+ * Spacing tokens
+ */
+export const spacing = {
+  0: "0px",
+  1: "0.25rem",
+  2: "0.5rem",
+  3: "0.75rem",
+  4: "1rem",
+  5: "1.25rem",
+  6: "1.5rem",
+  8: "2rem",
+  10: "2.5rem",
+  12: "3rem",
+  16: "4rem",
+  20: "5rem",
+  24: "6rem",
+  32: "8rem",
+  40: "10rem",
+  48: "12rem",
+  56: "14rem",
+  64: "16rem",
+} as const;
+
+/**
+ * Control, gap and inset tokens
+ * Values of the default (comfortable) density
+ */
+export const density = {
+  control: {
+    height: {
+      xs: "1.5rem",
+      sm: "2rem",
+      md: "2.5rem",
+      lg: "3rem",
+    },
+    "padding-x": {
+      xs: "0.5rem",
+      sm: "0.75rem",
+      md: "1rem",
+      lg: "1.5rem",
+    },
+    "padding-y": {
+      xs: "0.25rem",
+      sm: "0.5rem",
+      md: "0.75rem",
+      lg: "1rem",
+    },
+    "font-size": {
+      xs: "0.75rem",
+      sm: "0.875rem",
+      md: "1rem",
+      lg: "1.125rem",
+    },
+  },
+  gap: {
+    xs: "0.25rem",
+    sm: "0.5rem",
+    md: "1rem",
+    lg: "1.5rem",
+    xl: "2rem",
+  },
+  inset: {
+    sm: "0.75rem",
+    md: "1.5rem",
+    lg: "2rem",
+  },
+} as const;
+
+/**
+ * Border radius tokens
+ */
+export const borderRadius = {
+  none: "0px",
+  sm: "0.125rem",
+  base: "0.25rem",
+  md: "0.375rem",
+  lg: "0.5rem",
+  xl: "0.75rem",
+  "2xl": "1rem",
+  "3xl": "1.5rem",
+  full: "9999px",
+} as const;
+
+/**
+ * Border width tokens
+ */
+export const borderWidth = {
+  default: "1px",
+  strong: "2px",
+} as const;
+
+/**
+ * Focus ring tokens
+ */
+export const focusRing = {
+  width: "2px",
+  offset: "2px",
+} as const;
+
+/**
+ * Elevation tokens
+ * Shadow and surface color per level, light theme values
+ */
+export const elevation = {
+  raised: {
+    shadow: "0px 1px 2px 0px #0000000d",
+    surface: "#ffffff",
+  },
+  overlay: {
+    shadow: "0px 10px 15px -3px #0000001a, 0px 4px 6px -4px #0000001a",
+    surface: "#ffffff",
+  },
+  modal: {
+    shadow: "0px 20px 25px -5px #0000001a, 0px 8px 10px -6px #0000001a",
+    surface: "#ffffff",
+  },
+} as const;
+
+/**
+ * Shadow tokens
+ */
+export const shadows = {
+  none: "none",
+  sm: "0px 1px 2px 0px #0000000d",
+  base: "0px 1px 3px 0px #0000001a, 0px 1px 2px -1px #0000001a",
+  md: "0px 4px 6px -1px #0000001a, 0px 2px 4px -2px #0000001a",
+  lg: "0px 10px 15px -3px #0000001a, 0px 4px 6px -4px #0000001a",
+  xl: "0px 20px 25px -5px #0000001a, 0px 8px 10px -6px #0000001a",
+  "2xl": "0px 25px 50px -12px #00000040",
+  inner: "inset 0px 2px 4px 0px #0000000d",
+} as const;
+
+/**
+ * Z-index scale for stacked layers
+ */
+export const zIndex = {
+  dropdown: 1000,
+  sticky: 1100,
+  overlay: 1200,
+  modal: 1300,
+  toast: 1400,
+  tooltip: 1500,
+} as const;
+
+/**
+ * Breakpoint tokens (minimum viewport widths)
+ */
+export const breakpoints = {
+  sm: "40rem",
+  md: "48rem",
+  lg: "64rem",
+  xl: "80rem",
+  "2xl": "96rem",
+} as const;
+
+/**
+ * Container size tokens (minimum container widths)
+ */
+export const containers = {
+  sm: "24rem",
+  md: "32rem",
+  lg: "40rem",
+  xl: "48rem",
+} as const;
+
+/**
+ * Animation tokens
+ */
+export const animation = {
+  duration: {
+    fast: "150ms",
+    normal: "300ms",
+    slow: "500ms",
+  },
+  easing: {
+    linear: "cubic-bezier(0, 0, 1, 1)",
+    ease: "cubic-bezier(0.25, 0.1, 0.25, 1)",
+    "ease-in": "cubic-bezier(0.42, 0, 1, 1)",
+    "ease-out": "cubic-bezier(0, 0, 0.58, 1)",
+    "ease-in-out": "cubic-bezier(0.42, 0, 0.58, 1)",
+  },
+  motion: {
+    duration: {
+      fast: "150ms",
+      normal: "300ms",
+      slow: "500ms",
+    },
+    loop: {
+      spin: "1s",
+      pulse: "2s",
+      indeterminate: "1.5s",
+    },
+  },
+} as const;
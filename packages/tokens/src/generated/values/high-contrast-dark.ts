@@ -0,0 +1,150 @@
+/**
+ * High-contrast-dark theme token values
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+export const values = {
+  "color.brand.50": "#082f49",
+  "color.brand.100": "#0c4a6e",
+  "color.brand.200": "#075985",
+  "color.brand.300": "#0369a1",
+  "color.brand.400": "#0284c7",
+  "color.brand.500": "#0ea5e9",
+  "color.brand.600": "#38bdf8",
+  "color.brand.700": "#7dd3fc",
+  "color.brand.800": "#bae6fd",
+  "color.brand.900": "#e0f2fe",
+  "color.brand.950": "#f0f9ff",
+  "color.neutral.50": "#020617",
+  "color.neutral.100": "#0f172a",
+  "color.neutral.200": "#1e293b",
+  "color.neutral.300": "#334155",
+  "color.neutral.400": "#475569",
+  "color.neutral.500": "#64748b",
+  "color.neutral.600": "#94a3b8",
+  "color.neutral.700": "#cbd5e1",
+  "color.neutral.800": "#e2e8f0",
+  "color.neutral.900": "#f1f5f9",
+  "color.neutral.950": "#f8fafc",
+  "color.semantic.success.50": "#15803d",
+  "color.semantic.success.400": "#4ade80",
+  "color.semantic.success.500": "#22c55e",
+  "color.semantic.success.600": "#16a34a",
+  "color.semantic.success.700": "#f0fdf4",
+  "color.semantic.success.800": "#166534",
+  "color.semantic.warning.50": "#b45309",
+  "color.semantic.warning.400": "#fbbf24",
+  "color.semantic.warning.500": "#f59e0b",
+  "color.semantic.warning.600": "#d97706",
+  "color.semantic.warning.700": "#fffbeb",
+  "color.semantic.warning.800": "#92400e",
+  "color.semantic.error.50": "#b91c1c",
+  "color.semantic.error.400": "#f87171",
+  "color.semantic.error.500": "#ef4444",
+  "color.semantic.error.600": "#dc2626",
+  "color.semantic.error.700": "#fef2f2",
+  "color.semantic.error.800": "#991b1b",
+  "color.semantic.info.50": "#1d4ed8",
+  "color.semantic.info.400": "#60a5fa",
+  "color.semantic.info.500": "#3b82f6",
+  "color.semantic.info.600": "#2563eb",
+  "color.semantic.info.700": "#eff6ff",
+  "color.semantic.info.800": "#1e40af",
+  "color.white": "#ffffff",
+  "color.black": "#000000",
+  "color.transparent": "rgba(0, 0, 0, 0)",
+  "color.text.default": "#f8fafc",
+  "color.text.secondary": "#f1f5f9",
+  "color.text.subdued": "#e2e8f0",
+  "color.text.placeholder": "#cbd5e1",
+  "color.text.disabled": "#94a3b8",
+  "color.text.accent": "#bae6fd",
+  "color.text.on-solid": "#020617",
+  "color.surface.default": "#020617",
+  "color.surface.raised": "#0f172a",
+  "color.surface.subtle": "#0f172a",
+  "color.surface.muted": "#1e293b",
+  "color.surface.strong": "#334155",
+  "color.surface.disabled": "#1e293b",
+  "color.border.default": "#cbd5e1",
+  "color.border.strong": "#f1f5f9",
+  "color.border.interactive": "#e2e8f0",
+  "color.border.disabled": "#64748b",
+  "color.border.focus": "#f8fafc",
+  "color.intent.accent.bg": "#082f49",
+  "color.intent.accent.bg-hover": "#0c4a6e",
+  "color.intent.accent.fg": "#e0f2fe",
+  "color.intent.accent.border": "#7dd3fc",
+  "color.intent.accent.solid": "#7dd3fc",
+  "color.intent.accent.solid-hover": "#bae6fd",
+  "color.intent.accent.solid-active": "#e0f2fe",
+  "color.intent.neutral.bg": "#0f172a",
+  "color.intent.neutral.bg-hover": "#1e293b",
+  "color.intent.neutral.fg": "#f1f5f9",
+  "color.intent.neutral.border": "#cbd5e1",
+  "color.intent.neutral.solid": "#e2e8f0",
+  "color.intent.neutral.solid-hover": "#f1f5f9",
+  "color.intent.neutral.solid-active": "#f8fafc",
+  "color.intent.success.bg": "#020617",
+  "color.intent.success.fg": "#f0fdf4",
+  "color.intent.success.border": "#4ade80",
+  "color.intent.success.solid": "#4ade80",
+  "color.intent.success.solid-hover": "#4ade80",
+  "color.intent.success.solid-active": "#4ade80",
+  "color.intent.warning.bg": "#020617",
+  "color.intent.warning.fg": "#fffbeb",
+  "color.intent.warning.border": "#fbbf24",
+  "color.intent.warning.solid": "#fbbf24",
+  "color.intent.warning.solid-hover": "#fbbf24",
+  "color.intent.warning.solid-active": "#fbbf24",
+  "color.intent.danger.bg": "#991b1b",
+  "color.intent.danger.fg": "#fef2f2",
+  "color.intent.danger.border": "#f87171",
+  "color.intent.danger.solid": "#f87171",
+  "color.intent.danger.solid-hover": "#f87171",
+  "color.intent.danger.solid-active": "#f87171",
+  "color.intent.info.bg": "#1e40af",
+  "color.intent.info.fg": "#eff6ff",
+  "color.intent.info.border": "#60a5fa",
+  "color.intent.info.solid": "#60a5fa",
+  "color.intent.info.solid-hover": "#60a5fa",
+  "color.intent.info.solid-active": "#60a5fa",
+  "color.data.categorical.1": "#93c5fd",
+  "color.data.categorical.2": "#f97316",
+  "color.data.categorical.3": "#6366f1",
+  "color.data.categorical.4": "#fcd34d",
+  "color.data.categorical.5": "#10b981",
+  "color.data.categorical.6": "#67e8f9",
+  "color.data.categorical.7": "#c084fc",
+  "color.data.categorical.8": "#fda4af",
+  "color.data.categorical.9": "#2dd4bf",
+  "color.data.categorical.10": "#f472b6",
+  "color.data.sequential.1": "#172554",
+  "color.data.sequential.2": "#1e3a8a",
+  "color.data.sequential.3": "#1e40af",
+  "color.data.sequential.4": "#1d4ed8",
+  "color.data.sequential.5": "#2563eb",
+  "color.data.sequential.6": "#3b82f6",
+  "color.data.sequential.7": "#60a5fa",
+  "color.data.sequential.8": "#93c5fd",
+  "color.data.sequential.9": "#bfdbfe",
+  "color.data.diverging.1": "#fdba74",
+  "color.data.diverging.2": "#f97316",
+  "color.data.diverging.3": "#c2410c",
+  "color.data.diverging.4": "#7c2d12",
+  "color.data.diverging.5": "#1e293b",
+  "color.data.diverging.6": "#1e3a8a",
+  "color.data.diverging.7": "#1d4ed8",
+  "color.data.diverging.8": "#3b82f6",
+  "color.data.diverging.9": "#93c5fd",
+  "elevation.raised.shadow": "0px 1px 2px 0px #00000066",
+  "elevation.raised.surface": "#0f172a",
+  "elevation.overlay.shadow": "0px 10px 15px -3px #00000080, 0px 4px 6px -4px #00000080",
+  "elevation.overlay.surface": "#1e293b",
+  "elevation.modal.shadow": "0px 20px 25px -5px #00000099, 0px 8px 10px -6px #00000099",
+  "elevation.modal.surface": "#1e293b",
+  "border-width.default": "2px",
+  "border-width.strong": "3px",
+  "focus-ring.width": "3px",
+  "focus-ring.offset": "2px",
+} as const;
@@ -0,0 +1,150 @@
+/**
+ * High-contrast-light theme token values
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+export const values = {
+  "color.brand.50": "#f0f9ff",
+  "color.brand.100": "#e0f2fe",
+  "color.brand.200": "#bae6fd",
+  "color.brand.300": "#7dd3fc",
+  "color.brand.400": "#38bdf8",
+  "color.brand.500": "#0ea5e9",
+  "color.brand.600": "#0284c7",
+  "color.brand.700": "#0369a1",
+  "color.brand.800": "#075985",
+  "color.brand.900": "#0c4a6e",
+  "color.brand.950": "#082f49",
+  "color.neutral.50": "#f8fafc",
+  "color.neutral.100": "#f1f5f9",
+  "color.neutral.200": "#e2e8f0",
+  "color.neutral.300": "#cbd5e1",
+  "color.neutral.400": "#94a3b8",
+  "color.neutral.500": "#64748b",
+  "color.neutral.600": "#475569",
+  "color.neutral.700": "#334155",
+  "color.neutral.800": "#1e293b",
+  "color.neutral.900": "#0f172a",
+  "color.neutral.950": "#020617",
+  "color.semantic.success.50": "#f0fdf4",
+  "color.semantic.success.400": "#4ade80",
+  "color.semantic.success.500": "#22c55e",
+  "color.semantic.success.600": "#16a34a",
+  "color.semantic.success.700": "#15803d",
+  "color.semantic.success.800": "#166534",
+  "color.semantic.warning.50": "#fffbeb",
+  "color.semantic.warning.400": "#fbbf24",
+  "color.semantic.warning.500": "#f59e0b",
+  "color.semantic.warning.600": "#d97706",
+  "color.semantic.warning.700": "#b45309",
+  "color.semantic.warning.800": "#92400e",
+  "color.semantic.error.50": "#fef2f2",
+  "color.semantic.error.400": "#f87171",
+  "color.semantic.error.500": "#ef4444",
+  "color.semantic.error.600": "#dc2626",
+  "color.semantic.error.700": "#b91c1c",
+  "color.semantic.error.800": "#991b1b",
+  "color.semantic.info.50": "#eff6ff",
+  "color.semantic.info.400": "#60a5fa",
+  "color.semantic.info.500": "#3b82f6",
+  "color.semantic.info.600": "#2563eb",
+  "color.semantic.info.700": "#1d4ed8",
+  "color.semantic.info.800": "#1e40af",
+  "color.white": "#ffffff",
+  "color.black": "#000000",
+  "color.transparent": "rgba(0, 0, 0, 0)",
+  "color.text.default": "#020617",
+  "color.text.secondary": "#0f172a",
+  "color.text.subdued": "#1e293b",
+  "color.text.placeholder": "#334155",
+  "color.text.disabled": "#475569",
+  "color.text.accent": "#075985",
+  "color.text.on-solid": "#ffffff",
+  "color.surface.default": "#ffffff",
+  "color.surface.raised": "#ffffff",
+  "color.surface.subtle": "#f8fafc",
+  "color.surface.muted": "#f1f5f9",
+  "color.surface.strong": "#e2e8f0",
+  "color.surface.disabled": "#f1f5f9",
+  "color.border.default": "#334155",
+  "color.border.strong": "#0f172a",
+  "color.border.interactive": "#1e293b",
+  "color.border.disabled": "#64748b",
+  "color.border.focus": "#020617",
+  "color.intent.accent.bg": "#f0f9ff",
+  "color.intent.accent.bg-hover": "#e0f2fe",
+  "color.intent.accent.fg": "#0c4a6e",
+  "color.intent.accent.border": "#075985",
+  "color.intent.accent.solid": "#075985",
+  "color.intent.accent.solid-hover": "#0c4a6e",
+  "color.intent.accent.solid-active": "#082f49",
+  "color.intent.neutral.bg": "#f1f5f9",
+  "color.intent.neutral.bg-hover": "#e2e8f0",
+  "color.intent.neutral.fg": "#0f172a",
+  "color.intent.neutral.border": "#334155",
+  "color.intent.neutral.solid": "#1e293b",
+  "color.intent.neutral.solid-hover": "#0f172a",
+  "color.intent.neutral.solid-active": "#020617",
+  "color.intent.success.bg": "#ffffff",
+  "color.intent.success.fg": "#166534",
+  "color.intent.success.border": "#15803d",
+  "color.intent.success.solid": "#166534",
+  "color.intent.success.solid-hover": "#166534",
+  "color.intent.success.solid-active": "#166534",
+  "color.intent.warning.bg": "#ffffff",
+  "color.intent.warning.fg": "#92400e",
+  "color.intent.warning.border": "#b45309",
+  "color.intent.warning.solid": "#92400e",
+  "color.intent.warning.solid-hover": "#92400e",
+  "color.intent.warning.solid-active": "#92400e",
+  "color.intent.danger.bg": "#fef2f2",
+  "color.intent.danger.fg": "#991b1b",
+  "color.intent.danger.border": "#b91c1c",
+  "color.intent.danger.solid": "#991b1b",
+  "color.intent.danger.solid-hover": "#991b1b",
+  "color.intent.danger.solid-active": "#991b1b",
+  "color.intent.info.bg": "#eff6ff",
+  "color.intent.info.fg": "#1e40af",
+  "color.intent.info.border": "#1d4ed8",
+  "color.intent.info.solid": "#1e40af",
+  "color.intent.info.solid-hover": "#1e40af",
+  "color.intent.info.solid-active": "#1e40af",
+  "color.data.categorical.1": "#2563eb",
+  "color.data.categorical.2": "#ea580c",
+  "color.data.categorical.3": "#3730a3",
+  "color.data.categorical.4": "#92400e",
+  "color.data.categorical.5": "#047857",
+  "color.data.categorical.6": "#0891b2",
+  "color.data.categorical.7": "#7e22ce",
+  "color.data.categorical.8": "#be123c",
+  "color.data.categorical.9": "#115e59",
+  "color.data.categorical.10": "#db2777",
+  "color.data.sequential.1": "#dbeafe",
+  "color.data.sequential.2": "#bfdbfe",
+  "color.data.sequential.3": "#93c5fd",
+  "color.data.sequential.4": "#60a5fa",
+  "color.data.sequential.5": "#3b82f6",
+  "color.data.sequential.6": "#2563eb",
+  "color.data.sequential.7": "#1d4ed8",
+  "color.data.sequential.8": "#1e40af",
+  "color.data.sequential.9": "#1e3a8a",
+  "color.data.diverging.1": "#9a3412",
+  "color.data.diverging.2": "#ea580c",
+  "color.data.diverging.3": "#fb923c",
+  "color.data.diverging.4": "#fed7aa",
+  "color.data.diverging.5": "#f1f5f9",
+  "color.data.diverging.6": "#bfdbfe",
+  "color.data.diverging.7": "#60a5fa",
+  "color.data.diverging.8": "#2563eb",
+  "color.data.diverging.9": "#1e3a8a",
+  "elevation.raised.shadow": "0px 1px 2px 0px #0000000d",
+  "elevation.raised.surface": "#ffffff",
+  "elevation.overlay.shadow": "0px 10px 15px -3px #0000001a, 0px 4px 6px -4px #0000001a",
+  "elevation.overlay.surface": "#ffffff",
+  "elevation.modal.shadow": "0px 20px 25px -5px #0000001a, 0px 8px 10px -6px #0000001a",
+  "elevation.modal.surface": "#ffffff",
+  "border-width.default": "2px",
+  "border-width.strong": "3px",
+  "focus-ring.width": "3px",
+  "focus-ring.offset": "2px",
+} as const;
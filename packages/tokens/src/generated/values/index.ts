@@ -0,0 +1,16 @@
+/**
+ * Token values per theme for FreeUI design system
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+import { values as light } from "./light";
+import { values as dark } from "./dark";
+import { values as highContrastLight } from "./high-contrast-light";
+import { values as highContrastDark } from "./high-contrast-dark";
+
+export const themeValues = {
+  light,
+  dark,
+  "high-contrast-light": highContrastLight,
+  "high-contrast-dark": highContrastDark,
+};
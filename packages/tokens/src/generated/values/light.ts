@@ -0,0 +1,269 @@
+/**
+ * Light theme token values
+ * Auto-generated from design tokens - do not edit directly
+ */
+
+export const values = {
+  "font-family.sans": "ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif",
+  "font-family.mono": "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
+  "font-size.xs": "0.75rem",
+  "font-size.sm": "0.875rem",
+  "font-size.base": "1rem",
+  "font-size.lg": "1.125rem",
+  "font-size.xl": "1.25rem",
+  "font-size.2xl": "1.5rem",
+  "font-size.3xl": "1.875rem",
+  "font-size.4xl": "2.25rem",
+  "font-size.5xl": "3rem",
+  "font-size.6xl": "3.75rem",
+  "font-size-fluid.lg": "clamp(1rem, 0.9583rem + 0.2083vw, 1.125rem)",
+  "font-size-fluid.xl": "clamp(1.125rem, 1.0833rem + 0.2083vw, 1.25rem)",
+  "font-size-fluid.2xl": "clamp(1.25rem, 1.1667rem + 0.4167vw, 1.5rem)",
+  "font-size-fluid.3xl": "clamp(1.5rem, 1.375rem + 0.625vw, 1.875rem)",
+  "font-size-fluid.4xl": "clamp(1.875rem, 1.75rem + 0.625vw, 2.25rem)",
+  "font-size-fluid.5xl": "clamp(1.875rem, 1.5rem + 1.875vw, 3rem)",
+  "font-size-fluid.6xl": "clamp(2.25rem, 1.75rem + 2.5vw, 3.75rem)",
+  "font-weight.normal": "400",
+  "font-weight.medium": "500",
+  "font-weight.semibold": "600",
+  "font-weight.bold": "700",
+  "line-height.tight": "1.25",
+  "line-height.normal": "1.5",
+  "line-height.relaxed": "1.75",
+  "letter-spacing.tight": "-0.025em",
+  "letter-spacing.normal": "0em",
+  "letter-spacing.wide": "0.025em",
+  "breakpoint.sm": "40rem",
+  "breakpoint.md": "48rem",
+  "breakpoint.lg": "64rem",
+  "breakpoint.xl": "80rem",
+  "breakpoint.2xl": "96rem",
+  "viewport.min": "20rem",
+  "viewport.max": "80rem",
+  "container.sm": "24rem",
+  "container.md": "32rem",
+  "container.lg": "40rem",
+  "container.xl": "48rem",
+  "spacing.0": "0px",
+  "spacing.1": "0.25rem",
+  "spacing.2": "0.5rem",
+  "spacing.3": "0.75rem",
+  "spacing.4": "1rem",
+  "spacing.5": "1.25rem",
+  "spacing.6": "1.5rem",
+  "spacing.8": "2rem",
+  "spacing.10": "2.5rem",
+  "spacing.12": "3rem",
+  "spacing.16": "4rem",
+  "spacing.20": "5rem",
+  "spacing.24": "6rem",
+  "spacing.32": "8rem",
+  "spacing.40": "10rem",
+  "spacing.48": "12rem",
+  "spacing.56": "14rem",
+  "spacing.64": "16rem",
+  "border-radius.none": "0px",
+  "border-radius.sm": "0.125rem",
+  "border-radius.base": "0.25rem",
+  "border-radius.md": "0.375rem",
+  "border-radius.lg": "0.5rem",
+  "border-radius.xl": "0.75rem",
+  "border-radius.2xl": "1rem",
+  "border-radius.3xl": "1.5rem",
+  "border-radius.full": "9999px",
+  "border-width.default": "1px",
+  "border-width.strong": "2px",
+  "focus-ring.width": "2px",
+  "focus-ring.offset": "2px",
+  "shadow.none": "none",
+  "shadow.sm": "0px 1px 2px 0px #0000000d",
+  "shadow.base": "0px 1px 3px 0px #0000001a, 0px 1px 2px -1px #0000001a",
+  "shadow.md": "0px 4px 6px -1px #0000001a, 0px 2px 4px -2px #0000001a",
+  "shadow.lg": "0px 10px 15px -3px #0000001a, 0px 4px 6px -4px #0000001a",
+  "shadow.xl": "0px 20px 25px -5px #0000001a, 0px 8px 10px -6px #0000001a",
+  "shadow.2xl": "0px 25px 50px -12px #00000040",
+  "shadow.inner": "inset 0px 2px 4px 0px #0000000d",
+  "duration.fast": "150ms",
+  "duration.normal": "300ms",
+  "duration.slow": "500ms",
+  "easing.linear": "cubic-bezier(0, 0, 1, 1)",
+  "easing.ease": "cubic-bezier(0.25, 0.1, 0.25, 1)",
+  "easing.ease-in": "cubic-bezier(0.42, 0, 1, 1)",
+  "easing.ease-out": "cubic-bezier(0, 0, 0.58, 1)",
+  "easing.ease-in-out": "cubic-bezier(0.42, 0, 0.58, 1)",
+  "z-index.dropdown": "1000",
+  "z-index.sticky": "1100",
+  "z-index.overlay": "1200",
+  "z-index.modal": "1300",
+  "z-index.toast": "1400",
+  "z-index.tooltip": "1500",
+  "control.height.xs": "1.5rem",
+  "control.height.sm": "2rem",
+  "control.height.md": "2.5rem",
+  "control.height.lg": "3rem",
+  "control.padding-x.xs": "0.5rem",
+  "control.padding-x.sm": "0.75rem",
+  "control.padding-x.md": "1rem",
+  "control.padding-x.lg": "1.5rem",
+  "control.padding-y.xs": "0.25rem",
+  "control.padding-y.sm": "0.5rem",
+  "control.padding-y.md": "0.75rem",
+  "control.padding-y.lg": "1rem",
+  "control.font-size.xs": "0.75rem",
+  "control.font-size.sm": "0.875rem",
+  "control.font-size.md": "1rem",
+  "control.font-size.lg": "1.125rem",
+  "gap.xs": "0.25rem",
+  "gap.sm": "0.5rem",
+  "gap.md": "1rem",
+  "gap.lg": "1.5rem",
+  "gap.xl": "2rem",
+  "inset.sm": "0.75rem",
+  "inset.md": "1.5rem",
+  "inset.lg": "2rem",
+  "motion.duration.fast": "150ms",
+  "motion.duration.normal": "300ms",
+  "motion.duration.slow": "500ms",
+  "motion.loop.spin": "1s",
+  "motion.loop.pulse": "2s",
+  "motion.loop.indeterminate": "1.5s",
+  "color.brand.50": "#f0f9ff",
+  "color.brand.100": "#e0f2fe",
+  "color.brand.200": "#bae6fd",
+  "color.brand.300": "#7dd3fc",
+  "color.brand.400": "#38bdf8",
+  "color.brand.500": "#0ea5e9",
+  "color.brand.600": "#0284c7",
+  "color.brand.700": "#0369a1",
+  "color.brand.800": "#075985",
+  "color.brand.900": "#0c4a6e",
+  "color.brand.950": "#082f49",
+  "color.neutral.50": "#f8fafc",
+  "color.neutral.100": "#f1f5f9",
+  "color.neutral.200": "#e2e8f0",
+  "color.neutral.300": "#cbd5e1",
+  "color.neutral.400": "#94a3b8",
+  "color.neutral.500": "#64748b",
+  "color.neutral.600": "#475569",
+  "color.neutral.700": "#334155",
+  "color.neutral.800": "#1e293b",
+  "color.neutral.900": "#0f172a",
+  "color.neutral.950": "#020617",
+  "color.semantic.success.50": "#f0fdf4",
+  "color.semantic.success.400": "#4ade80",
+  "color.semantic.success.500": "#22c55e",
+  "color.semantic.success.600": "#16a34a",
+  "color.semantic.success.700": "#15803d",
+  "color.semantic.success.800": "#166534",
+  "color.semantic.warning.50": "#fffbeb",
+  "color.semantic.warning.400": "#fbbf24",
+  "color.semantic.warning.500": "#f59e0b",
+  "color.semantic.warning.600": "#d97706",
+  "color.semantic.warning.700": "#b45309",
+  "color.semantic.warning.800": "#92400e",
+  "color.semantic.error.50": "#fef2f2",
+  "color.semantic.error.400": "#f87171",
+  "color.semantic.error.500": "#ef4444",
+  "color.semantic.error.600": "#dc2626",
+  "color.semantic.error.700": "#b91c1c",
+  "color.semantic.error.800": "#991b1b",
+  "color.semantic.info.50": "#eff6ff",
+  "color.semantic.info.400": "#60a5fa",
+  "color.semantic.info.500": "#3b82f6",
+  "color.semantic.info.600": "#2563eb",
+  "color.semantic.info.700": "#1d4ed8",
+  "color.semantic.info.800": "#1e40af",
+  "color.white": "#ffffff",
+  "color.black": "#000000",
+  "color.transparent": "rgba(0, 0, 0, 0)",
+  "color.text.default": "#0f172a",
+  "color.text.secondary": "#334155",
+  "color.text.subdued": "#475569",
+  "color.text.placeholder": "#64748b",
+  "color.text.disabled": "#94a3b8",
+  "color.text.accent": "#0369a1",
+  "color.text.on-solid": "#ffffff",
+  "color.surface.default": "#ffffff",
+  "color.surface.raised": "#ffffff",
+  "color.surface.subtle": "#f8fafc",
+  "color.surface.muted": "#f1f5f9",
+  "color.surface.strong": "#e2e8f0",
+  "color.surface.disabled": "#f1f5f9",
+  "color.border.default": "#e2e8f0",
+  "color.border.strong": "#cbd5e1",
+  "color.border.interactive": "#94a3b8",
+  "color.border.disabled": "#e2e8f0",
+  "color.border.focus": "#0284c7",
+  "color.intent.accent.bg": "#f0f9ff",
+  "color.intent.accent.bg-hover": "#e0f2fe",
+  "color.intent.accent.fg": "#0369a1",
+  "color.intent.accent.border": "#0ea5e9",
+  "color.intent.accent.solid": "#0369a1",
+  "color.intent.accent.solid-hover": "#075985",
+  "color.intent.accent.solid-active": "#0c4a6e",
+  "color.intent.neutral.bg": "#f1f5f9",
+  "color.intent.neutral.bg-hover": "#e2e8f0",
+  "color.intent.neutral.fg": "#334155",
+  "color.intent.neutral.border": "#cbd5e1",
+  "color.intent.neutral.solid": "#475569",
+  "color.intent.neutral.solid-hover": "#334155",
+  "color.intent.neutral.solid-active": "#1e293b",
+  "color.intent.success.bg": "#f0fdf4",
+  "color.intent.success.fg": "#15803d",
+  "color.intent.success.border": "#22c55e",
+  "color.intent.success.solid": "#15803d",
+  "color.intent.success.solid-hover": "#166534",
+  "color.intent.success.solid-active": "#166534",
+  "color.intent.warning.bg": "#fffbeb",
+  "color.intent.warning.fg": "#b45309",
+  "color.intent.warning.border": "#f59e0b",
+  "color.intent.warning.solid": "#b45309",
+  "color.intent.warning.solid-hover": "#92400e",
+  "color.intent.warning.solid-active": "#92400e",
+  "color.intent.danger.bg": "#fef2f2",
+  "color.intent.danger.fg": "#b91c1c",
+  "color.intent.danger.border": "#ef4444",
+  "color.intent.danger.solid": "#dc2626",
+  "color.intent.danger.solid-hover": "#b91c1c",
+  "color.intent.danger.solid-active": "#b91c1c",
+  "color.intent.info.bg": "#eff6ff",
+  "color.intent.info.fg": "#1d4ed8",
+  "color.intent.info.border": "#3b82f6",
+  "color.intent.info.solid": "#2563eb",
+  "color.intent.info.solid-hover": "#1d4ed8",
+  "color.intent.info.solid-active": "#1d4ed8",
+  "color.data.categorical.1": "#2563eb",
+  "color.data.categorical.2": "#ea580c",
+  "color.data.categorical.3": "#3730a3",
+  "color.data.categorical.4": "#92400e",
+  "color.data.categorical.5": "#047857",
+  "color.data.categorical.6": "#0891b2",
+  "color.data.categorical.7": "#7e22ce",
+  "color.data.categorical.8": "#be123c",
+  "color.data.categorical.9": "#115e59",
+  "color.data.categorical.10": "#db2777",
+  "color.data.sequential.1": "#dbeafe",
+  "color.data.sequential.2": "#bfdbfe",
+  "color.data.sequential.3": "#93c5fd",
+  "color.data.sequential.4": "#60a5fa",
+  "color.data.sequential.5": "#3b82f6",
+  "color.data.sequential.6": "#2563eb",
+  "color.data.sequential.7": "#1d4ed8",
+  "color.data.sequential.8": "#1e40af",
+  "color.data.sequential.9": "#1e3a8a",
+  "color.data.diverging.1": "#9a3412",
+  "color.data.diverging.2": "#ea580c",
+  "color.data.diverging.3": "#fb923c",
+  "color.data.diverging.4": "#fed7aa",
+  "color.data.diverging.5": "#f1f5f9",
+  "color.data.diverging.6": "#bfdbfe",
+  "color.data.diverging.7": "#60a5fa",
+  "color.data.diverging.8": "#2563eb",
+  "color.data.diverging.9": "#1e3a8a",
+  "elevation.raised.shadow": "0px 1px 2px 0px #0000000d",
+  "elevation.raised.surface": "#ffffff",
+  "elevation.overlay.shadow": "0px 10px 15px -3px #0000001a, 0px 4px 6px -4px #0000001a",
+  "elevation.overlay.surface": "#ffffff",
+  "elevation.modal.shadow": "0px 20px 25px -5px #0000001a, 0px 8px 10px -6px #0000001a",
+  "elevation.modal.surface": "#ffffff",
+} as const;
@@ -1 +1,8 @@
-export * from "./tokens";
+export * from "./generated/tokens";
+export * from "./generated/themes";
+export * from "./generated/paths";
+export * from "./breakpoints";
+export * from "./contrast";
+export * from "./palettes";
+export * from "./theme";
+export * from "./variables";
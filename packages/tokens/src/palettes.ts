@@ -0,0 +1,58 @@
+/**
+ * Data-visualization palettes: ordered colors for chart series and scales.
+ */
+
+import { tokenPaths, type TokenPath } from "./generated/paths";
+import type { ThemeName } from "./generated/themes";
+import { cssVar, tokenValue } from "./variables";
+
+/**
+ * - `categorical`: distinct hues for unrelated series, in the order to
+ *   assign them
+ * - `sequential`: low to high for ordered values
+ * - `diverging`: below to above a midpoint, with the neutral step in the
+ *   middle
+ */
+export type DataPalette = "categorical" | "sequential" | "diverging";
+
+function palettePaths(palette: DataPalette): TokenPath[] {
+  const prefix = `color.data.${palette}.`;
+  return tokenPaths
+    .filter((path) => path.startsWith(prefix))
+    .sort(
+      (a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length))
+    );
+}
+
+/**
+ * Palette colors as CSS custom property references, in series order. They
+ * follow the active `data-theme`, so charts switch palettes with the page.
+ *
+ * @example
+ * series.map((item, i) => ({
+ *   ...item,
+ *   color: dataPalettes.categorical[i % dataPalettes.categorical.length],
+ * }));
+ */
+export const dataPalettes: Record<
+  DataPalette,
+  readonly `var(--freeui-${string})`[]
+> = {
+  categorical: palettePaths("categorical").map(cssVar),
+  sequential: palettePaths("sequential").map(cssVar),
+  diverging: palettePaths("diverging").map(cssVar),
+};
+
+/**
+ * Resolve a palette to the colors it has in a theme, for chart libraries
+ * that draw to canvas and can't read custom properties.
+ *
+ * @example
+ * dataPaletteValues("categorical", "dark"); // ["#93c5fd", "#f97316", ...]
+ */
+export function dataPaletteValues(
+  palette: DataPalette,
+  theme: ThemeName = "light"
+): string[] {
+  return palettePaths(palette).map((path) => tokenValue(path, theme));
+}
@@ -0,0 +1,31 @@
+/**
+ * Tailwind CSS preset built from the FreeUI tokens.
+ */
+
+import { tailwindTheme } from "./generated/tailwind";
+
+export { tailwindTheme };
+
+/**
+ * Tailwind CSS preset that replaces Tailwind's default colors, spacing,
+ * radii, shadows, type scale and transition timings with the FreeUI scales.
+ *
+ * Values are `var(--freeui-*)` references, so `@rockminster/css` (or another
+ * stylesheet defining the variables) must be loaded, and utilities follow the
+ * active `data-theme`. Opacity modifiers (`bg-brand-500/50`) mix colors with
+ * `color-mix()`, and `duration-*` utilities use the motion tokens, which
+ * are `0ms` under reduced motion. Extra values can still be added under
+ * `theme.extend`.
+ *
+ * @example
+ * // tailwind.config.js
+ * const { freeuiPreset } = require("@rockminster/tokens/tailwind");
+ *
+ * module.exports = {
+ *   presets: [freeuiPreset],
+ *   content: ["./src/**\/*.{ts,tsx}"],
+ * };
+ */
+export const freeuiPreset = {
+  theme: tailwindTheme,
+};
@@ -0,0 +1,333 @@
+/**
+ * Theme generation: derive 50–950 color ramps from a single color.
+ */
+
+import { type Oklch, oklchToRgb, parseColor, rgbToOklch, toHex } from "./color";
+import { checkContrast } from "./contrast";
+import { colors } from "./generated/tokens";
+import type { TokenOverrides } from "./variables";
+
+export const rampSteps = [
+  "50",
+  "100",
+  "200",
+  "300",
+  "400",
+  "500",
+  "600",
+  "700",
+  "800",
+  "900",
+  "950",
+] as const;
+
+export type RampStep = (typeof rampSteps)[number];
+
+/** One color per ramp step, lightest (`50`) to darkest (`950`) */
+export type ColorRamp = Record<RampStep, string>;
+
+export type SemanticColor = "success" | "warning" | "error" | "info";
+
+/**
+ * Steps the token sources define for the semantic ramps; only these have
+ * custom properties to override
+ */
+export type SemanticRampStep =
+  `${keyof (typeof colors)["semantic"]["success"]}`;
+
+export interface ThemeOptions {
+  /** Brand color as a hex or `rgb()` string */
+  brand: string;
+  /** Base color for the neutral ramp; keeps the default neutral ramp if omitted */
+  neutral?: string;
+  /** Base colors for semantic ramps; omitted ones keep their defaults */
+  semantic?: Partial<Record<SemanticColor, string>>;
+}
+
+/** DTCG color token */
+export interface ColorToken {
+  $value: string;
+}
+
+export type ColorRampTokens = Record<RampStep, ColorToken>;
+
+export type SemanticRampTokens = Record<SemanticRampStep, ColorToken>;
+
+/**
+ * Color primitives for one theme, in the same DTCG shape as the
+ * `light.json` / `dark.json` sources. Only the ramps a theme overrides are
+ * present; the semantic aliases keep pointing at them.
+ */
+export interface ThemeTokens {
+  color: {
+    $type: "color";
+    brand: ColorRampTokens;
+    neutral?: ColorRampTokens;
+    semantic?: Partial<Record<SemanticColor, SemanticRampTokens>>;
+  };
+}
+
+export interface Theme {
+  light: ThemeTokens;
+  dark: ThemeTokens;
+}
+
+/** Target OKLCH lightness for each step, evenly spaced in perceived lightness */
+const stepLightness: Record<RampStep, number> = {
+  "50": 0.975,
+  "100": 0.935,
+  "200": 0.88,
+  "300": 0.81,
+  "400": 0.72,
+  "500": 0.62,
+  "600": 0.53,
+  "700": 0.46,
+  "800": 0.39,
+  "900": 0.32,
+  "950": 0.25,
+};
+
+/** Share of the base chroma kept at each step; tints and shades desaturate */
+const stepChroma: Record<RampStep, number> = {
+  "50": 0.12,
+  "100": 0.25,
+  "200": 0.45,
+  "300": 0.7,
+  "400": 0.9,
+  "500": 1,
+  "600": 1,
+  "700": 0.92,
+  "800": 0.8,
+  "900": 0.65,
+  "950": 0.5,
+};
+
+/** Steps used for solid fills behind white text in light themes */
+const lightSolidSteps: RampStep[] = ["500", "600"];
+
+/**
+ * Steps used for solid fills in dark themes, which put dark text
+ * (`color.text.on-solid`, the darkest neutral) on them
+ */
+const darkSolidSteps: RampStep[] = ["400", "500", "600"];
+
+const minStepGap = 0.02;
+
+const white = "#ffffff";
+
+function meetsAa(color: Oklch, text: string): boolean {
+  return checkContrast(toHex(oklchToRgb(color)), text).aa;
+}
+
+/**
+ * Move the lightness towards `limit` (0 darkens, 1 lightens) until `text`
+ * on the color reaches 4.5:1
+ */
+function adjustForText(color: Oklch, text: string, limit: 0 | 1): Oklch {
+  if (meetsAa(color, text)) {
+    return color;
+  }
+  let passing: number = limit;
+  let failing = color.l;
+  for (let i = 0; i < 24; i++) {
+    const lightness = (passing + failing) / 2;
+    if (meetsAa({ ...color, l: lightness }, text)) {
+      passing = lightness;
+    } else {
+      failing = lightness;
+    }
+  }
+  return { ...color, l: passing };
+}
+
+/**
+ * Build a 50–950 ramp around `color` in OKLCH. The input color is kept
+ * verbatim at the step closest to its lightness (unless that step is too
+ * light for its position), and `500`/`600` are darkened if needed so white
+ * text on them meets WCAG AA.
+ */
+export function createRamp(color: string): ColorRamp {
+  const rgb = parseColor(color);
+  const base = rgbToOklch(rgb);
+  const anchor = rampSteps.reduce((closest, step) =>
+    Math.abs(stepLightness[step] - base.l) <
+    Math.abs(stepLightness[closest] - base.l)
+      ? step
+      : closest
+  );
+
+  const targets = rampSteps.map(
+    (step): Oklch =>
+      step === anchor
+        ? base
+        : { l: stepLightness[step], c: base.c * stepChroma[step], h: base.h }
+  );
+
+  // When 500 has to be darkened for white text, compress the darker steps
+  // into the remaining range instead of letting 500 collide with 600.
+  const solidIndex = rampSteps.indexOf("500");
+  const solid = adjustForText(targets[solidIndex], white, 0);
+  if (solid !== targets[solidIndex]) {
+    const floor = stepLightness["950"];
+    const scale = (solid.l - floor) / (targets[solidIndex].l - floor);
+    for (let i = solidIndex + 1; i < targets.length; i++) {
+      if (targets[i] !== base) {
+        targets[i] = {
+          ...targets[i],
+          l: floor + (targets[i].l - floor) * scale,
+        };
+      }
+    }
+    targets[solidIndex] = solid;
+  }
+
+  const ramp = {} as ColorRamp;
+  let previous = Infinity;
+  rampSteps.forEach((step, index) => {
+    let target = targets[index];
+    if (target.l > previous - minStepGap) {
+      target = { ...target, l: previous - minStepGap };
+    }
+    if (lightSolidSteps.includes(step)) {
+      target = adjustForText(target, white, 0);
+    }
+
+    ramp[step] = target === base ? toHex(rgb) : toHex(oklchToRgb(target));
+    previous = target.l;
+  });
+  return ramp;
+}
+
+/**
+ * Derive the dark variant of a ramp by mirroring it around `500`
+ * (`50` ↔ `950`, `100` ↔ `900`, …), then lightening the solid steps until
+ * `text` on them meets WCAG AA.
+ */
+function createDarkRamp(ramp: ColorRamp, text: string): ColorRamp {
+  const dark = {} as ColorRamp;
+  let previous = -Infinity;
+  rampSteps.forEach((step, index) => {
+    const mirrored = ramp[rampSteps[rampSteps.length - 1 - index]];
+    const color = rgbToOklch(parseColor(mirrored));
+    let target = color;
+    if (target.l < previous + minStepGap) {
+      target = { ...target, l: previous + minStepGap };
+    }
+    if (darkSolidSteps.includes(step)) {
+      target = adjustForText(target, text, 1);
+    }
+
+    dark[step] = target === color ? mirrored : toHex(oklchToRgb(target));
+    previous = target.l;
+  });
+  return dark;
+}
+
+function toRampTokens(ramp: ColorRamp): ColorRampTokens;
+function toRampTokens(
+  ramp: ColorRamp,
+  steps: readonly SemanticRampStep[]
+): SemanticRampTokens;
+function toRampTokens(
+  ramp: ColorRamp,
+  steps: readonly RampStep[] = rampSteps
+): Partial<ColorRampTokens> {
+  return Object.fromEntries(
+    steps.map((step) => [step, { $value: ramp[step] }])
+  );
+}
+
+/** The semantic ramp steps present in the token sources */
+function semanticSteps(name: SemanticColor): SemanticRampStep[] {
+  return Object.keys(colors.semantic[name]) as SemanticRampStep[];
+}
+
+function toThemeTokens(
+  brand: ColorRamp,
+  neutral: ColorRamp | undefined,
+  semantic: [SemanticColor, ColorRamp][]
+): ThemeTokens {
+  return {
+    color: {
+      $type: "color",
+      brand: toRampTokens(brand),
+      ...(neutral ? { neutral: toRampTokens(neutral) } : {}),
+      ...(semantic.length > 0
+        ? {
+            semantic: Object.fromEntries(
+              semantic.map(([name, ramp]) => [
+                name,
+                toRampTokens(ramp, semanticSteps(name)),
+              ])
+            ),
+          }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Create light and dark color primitives from a brand color.
+ *
+ * The result uses the DTCG token shape, so it can be merged over the
+ * `light.json` / `dark.json` sources in a Style Dictionary build (e.g. via
+ * the `tokens` config option). At runtime, pass it to `ThemeScope`'s
+ * `theme` prop, or through `toTokenOverrides()` to `toCssVariables()`.
+ * Dark ramps mirror the light ones, with their solid steps lightened for
+ * the dark theme's on-solid text. Semantic ramps only carry the steps the
+ * sources define.
+ *
+ * @example
+ * const theme = createTheme({ brand: "#7c3aed" });
+ * theme.light.color.brand["600"].$value;
+ */
+export function createTheme({
+  brand,
+  neutral,
+  semantic = {},
+}: ThemeOptions): Theme {
+  const brandRamp = createRamp(brand);
+  const neutralRamp = neutral ? createRamp(neutral) : undefined;
+  const semanticRamps = (
+    Object.entries(semantic) as [SemanticColor, string | undefined][]
+  )
+    .filter((entry): entry is [SemanticColor, string] => Boolean(entry[1]))
+    .map(([name, color]): [SemanticColor, ColorRamp] => [
+      name,
+      createRamp(color),
+    ]);
+
+  const darkText = (neutralRamp ?? colors.neutral)["950"];
+
+  return {
+    light: toThemeTokens(brandRamp, neutralRamp, semanticRamps),
+    dark: toThemeTokens(
+      createDarkRamp(brandRamp, darkText),
+      neutralRamp && createDarkRamp(neutralRamp, darkText),
+      semanticRamps.map(([name, ramp]) => [
+        name,
+        createDarkRamp(ramp, darkText),
+      ])
+    ),
+  };
+}
+
+/**
+ * Turn one variant of a `createTheme()` result into plain token overrides
+ * for `toCssVariables()`, dropping the DTCG `$type` and `$value` wrappers.
+ *
+ * @example
+ * toCssVariables(toTokenOverrides(createTheme({ brand: "#7c3aed" }).dark));
+ */
+export function toTokenOverrides(tokens: ThemeTokens): TokenOverrides {
+  const unwrap = (node: object): object =>
+    Object.fromEntries(
+      Object.entries(node)
+        .filter(([key]) => !key.startsWith("$"))
+        .map(([key, child]) => [
+          key,
+          "$value" in child ? (child as ColorToken).$value : unwrap(child),
+        ])
+    );
+  return unwrap(tokens) as TokenOverrides;
+}
@@ -1,203 +0,0 @@
-/**
- * Color tokens for FreeUI design system
- * WCAG AA compliant color palette
- */
-
-export const colors = {
-  // Brand colors
-  brand: {
-    50: "#f0f9ff",
-    100: "#e0f2fe",
-    200: "#bae6fd",
-    300: "#7dd3fc",
-    400: "#38bdf8",
-    500: "#0ea5e9", // Primary brand color
-    600: "#0284c7",
-    700: "#0369a1",
-    800: "#075985",
-    900: "#0c4a6e",
-    950: "#082f49",
-  },
-
-  // Neutral colors
-  neutral: {
-    50: "#f8fafc",
-    100: "#f1f5f9",
-    200: "#e2e8f0",
-    300: "#cbd5e1",
-    400: "#94a3b8",
-    500: "#64748b",
-    600: "#475569",
-    700: "#334155",
-    800: "#1e293b",
-    900: "#0f172a",
-    950: "#020617",
-  },
-
-  // Semantic colors
-  semantic: {
-    success: {
-      50: "#f0fdf4",
-      500: "#22c55e",
-      600: "#16a34a",
-      700: "#15803d",
-    },
-    warning: {
-      50: "#fffbeb",
-      500: "#f59e0b",
-      600: "#d97706",
-      700: "#b45309",
-    },
-    error: {
-      50: "#fef2f2",
-      500: "#ef4444",
-      600: "#dc2626",
-      700: "#b91c1c",
-    },
-    info: {
-      50: "#eff6ff",
-      500: "#3b82f6",
-      600: "#2563eb",
-      700: "#1d4ed8",
-    },
-  },
-
-  // Special colors
-  white: "#ffffff",
-  black: "#000000",
-  transparent: "transparent",
-} as const;
-
-/**
- * Typography tokens
- */
-export const typography = {
-  fontFamily: {
-    sans: [
-      "ui-sans-serif",
-      "system-ui",
-      "-apple-system",
-      "BlinkMacSystemFont",
-      "Segoe UI",
-      "Roboto",
-      "Helvetica Neue",
-      "Arial",
-      "Noto Sans",
-      "sans-serif",
-    ],
-    mono: [
-      "ui-monospace",
-      "SFMono-Regular",
-      "Menlo",
-      "Monaco",
-      "Consolas",
-      "Liberation Mono",
-      "Courier New",
-      "monospace",
-    ],
-  },
-
-  fontSize: {
-    xs: "0.75rem", // 12px
-    sm: "0.875rem", // 14px
-    base: "1rem", // 16px
-    lg: "1.125rem", // 18px
-    xl: "1.25rem", // 20px
-    "2xl": "1.5rem", // 24px
-    "3xl": "1.875rem", // 30px
-    "4xl": "2.25rem", // 36px
-    "5xl": "3rem", // 48px
-    "6xl": "3.75rem", // 60px
-  },
-
-  fontWeight: {
-    normal: "400",
-    medium: "500",
-    semibold: "600",
-    bold: "700",
-  },
-
-  lineHeight: {
-    tight: "1.25",
-    normal: "1.5",
-    relaxed: "1.75",
-  },
-
-  letterSpacing: {
-    tight: "-0.025em",
-    normal: "0em",
-    wide: "0.025em",
-  },
-} as const;
-
-/**
- * Spacing tokens
- */
-export const spacing = {
-  0: "0px",
-  1: "0.25rem", // 4px
-  2: "0.5rem", // 8px
-  3: "0.75rem", // 12px
-  4: "1rem", // 16px
-  5: "1.25rem", // 20px
-  6: "1.5rem", // 24px
-  8: "2rem", // 32px
-  10: "2.5rem", // 40px
-  12: "3rem", // 48px
-  16: "4rem", // 64px
-  20: "5rem", // 80px
-  24: "6rem", // 96px
-  32: "8rem", // 128px
-  40: "10rem", // 160px
-  48: "12rem", // 192px
-  56: "14rem", // 224px
-  64: "16rem", // 256px
-} as const;
-
-/**
- * Border radius tokens
- */
-export const borderRadius = {
-  none: "0px",
-  sm: "0.125rem", // 2px
-  base: "0.25rem", // 4px
-  md: "0.375rem", // 6px
-  lg: "0.5rem", // 8px
-  xl: "0.75rem", // 12px
-  "2xl": "1rem", // 16px
-  "3xl": "1.5rem", // 24px
-  full: "9999px",
-} as const;
-
-/**
- * Shadow tokens
- */
-export const shadows = {
-  none: "none",
-  sm: "0 1px 2px 0 rgb(0 0 0 / 0.05)",
-  base: "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)",
-  md: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
-  lg: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
-  xl: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-  "2xl": "0 25px 50px -12px rgb(0 0 0 / 0.25)",
-  inner: "inset 0 2px 4px 0 rgb(0 0 0 / 0.05)",
-} as const;
-
-/**
- * Animation tokens
- */
-export const animation = {
-  duration: {
-    fast: "150ms",
-    normal: "300ms",
-    slow: "500ms",
-  },
-
-  easing: {
-    linear: "linear",
-    ease: "ease",
-    "ease-in": "ease-in",
-    "ease-out": "ease-out",
-    "ease-in-out": "ease-in-out",
-  },
-} as const;
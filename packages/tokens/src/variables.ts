@@ -0,0 +1,112 @@
+/**
+ * Typed access to token CSS custom properties and their values.
+ */
+
+import { tokenPaths, type TokenPath } from "./generated/paths";
+import type { ThemeName } from "./generated/themes";
+import { themeValues } from "./generated/values";
+
+/**
+ * Values each theme's stylesheet sets. Themes only define the tokens they
+ * override; everything else comes from the light theme on `:root`.
+ */
+const valuesByTheme: Record<
+  ThemeName,
+  Partial<Record<TokenPath, string>>
+> = themeValues;
+
+const knownPaths = new Set<string>(tokenPaths);
+
+/** Paths from untyped code or casts are only checked at runtime */
+function assertTokenPath(path: string): void {
+  if (!knownPaths.has(path)) {
+    throw new Error(`Unknown token "${path}"`);
+  }
+}
+
+/**
+ * Reference a token's CSS custom property. The path is checked against the
+ * token sources at compile time, and the reference follows the active
+ * `data-theme` at runtime. Throws on paths that are not tokens.
+ *
+ * @example
+ * cssVar("color.semantic.error.600"); // "var(--freeui-color-semantic-error-600)"
+ */
+export function cssVar(path: TokenPath): `var(--freeui-${string})` {
+  assertTokenPath(path);
+  return `var(--freeui-${path.split(".").join("-")})`;
+}
+
+/**
+ * Resolve a token to the CSS value it has in a theme, e.g. for canvas
+ * drawing or inline SVG where custom properties are not available. Tokens a
+ * theme doesn't override resolve to their light theme value. Throws on paths
+ * that are not tokens.
+ *
+ * @example
+ * tokenValue("color.text.default", "dark"); // "#f1f5f9"
+ */
+export function tokenValue(
+  path: TokenPath,
+  theme: ThemeName = "light"
+): string {
+  assertTokenPath(path);
+  return valuesByTheme[theme][path] ?? themeValues.light[path];
+}
+
+type PathHead<P extends string> = P extends `${infer Head}.${string}`
+  ? Head
+  : P;
+
+type PathTail<
+  P extends string,
+  Head extends string,
+> = P extends `${Head}.${infer Tail}` ? Tail : never;
+
+/**
+ * Partial token tree keyed like the token sources, e.g.
+ * `{ color: { brand: { 500: "#7c3aed" } } }`. Only existing token paths are
+ * accepted.
+ */
+export type TokenOverrides<P extends string = TokenPath> = {
+  [Head in PathHead<P>]?: Head extends P
+    ? string | number
+    : TokenOverrides<PathTail<P, Head>>;
+};
+
+/**
+ * Turn token overrides into `--freeui-*` custom properties, e.g. for an
+ * inline `style`. Throws on paths that are not tokens, which the
+ * `TokenOverrides` type only catches for literal objects. With
+ * `onUnknownToken`, such paths are passed to it and skipped instead, for
+ * overrides that come from runtime data.
+ *
+ * @example
+ * toCssVariables({ color: { brand: { 500: "#7c3aed" } } });
+ * // { "--freeui-color-brand-500": "#7c3aed" }
+ */
+export function toCssVariables(
+  overrides: TokenOverrides,
+  onUnknownToken?: (path: string) => void
+): Record<`--freeui-${string}`, string> {
+  const variables: Record<`--freeui-${string}`, string> = {};
+
+  const visit = (node: object, path: string[]) => {
+    for (const [key, value] of Object.entries(node)) {
+      const keyPath = [...path, key];
+      if (value !== null && typeof value === "object") {
+        visit(value, keyPath);
+      } else if (value !== undefined) {
+        if (onUnknownToken && !knownPaths.has(keyPath.join("."))) {
+          onUnknownToken(keyPath.join("."));
+          continue;
+        }
+        assertTokenPath(keyPath.join("."));
+        variables[`--freeui-${keyPath.join("-")}`] = String(value);
+      }
+    }
+  };
+
+  visit(overrides, []);
+  return variables;
+}
@@ -1,25 +1,372 @@
-module.exports = {
-  source: ["src/light.json"],
-  platforms: {
+const { contrastAudit } = require("./actions/contrast-audit");
+const { contrastPairs } = require("./actions/contrast-pairs");
+const { densities } = require("./densities");
+const { responsiveBlocks } = require("./responsive");
+const { paletteAudit } = require("./actions/palette-audit");
+const { cssCustomMedia } = require("./formats/custom-media");
+const { cssResponsive } = require("./formats/responsive");
+const { dtcgBundle } = require("./formats/dtcg");
+const {
+  coreGroups,
+  coreSet,
+  themeGroups,
+  tokensStudioMetadata,
+  tokensStudioSet,
+  tokensStudioThemes,
+} = require("./formats/tokens-studio");
+const {
+  typescriptTokenPaths,
+  typescriptTokenValues,
+} = require("./formats/paths");
+const { typescriptTailwind } = require("./formats/tailwind");
+const { typescriptThemes, typescriptTokens } = require("./formats/typescript");
+const { transforms, transformGroups } = require("./transforms");
+
+const generatedHeader =
+  "Auto-generated from design tokens - do not edit directly";
+
+/**
+ * Custom properties that reference other tokens are resolved where they are
+ * declared, so `--freeui-color-intent-accent-solid` keeps the `:root` brand
+ * color even where `--freeui-color-brand-700` is overridden. Theme scopes
+ * (`.freeui-theme-scope`, rendered by `ThemeScope`) re-declare the aliases so
+ * they resolve against the scope's own values. `:where()` keeps every theme's
+ * scope rule at the same specificity, so later themes win like their tokens.
+ */
+function scopeSelector(themeSelector) {
+  return `:where(${themeSelector}) .freeui-theme-scope`;
+}
+
+function isAlias(token) {
+  const value = token.original.$value ?? token.original.value;
+  return typeof value === "string" && /\{[^}]+\}/.test(value);
+}
+
+/**
+ * Fluid sizes are computed from their bounds at build time; pointing the
+ * bounds at other custom properties would leave the slope behind
+ */
+function keepsReferences(token) {
+  return token.$type !== "fluidDimension";
+}
+
+/**
+ * Style Dictionary config for one theme from `discoverThemes()`.
+ * The `light` theme also carries the theme-independent tokens, so it is
+ * the one that emits the TypeScript exports, the breakpoint custom media
+ * and responsive layout classes, the Tailwind theme and the Tokens Studio
+ * core set and theme list.
+ */
+function createConfig(theme, themes) {
+  const title = theme.name.charAt(0).toUpperCase() + theme.name.slice(1);
+
+  const cssFile = (destination, selector, filter) => ({
+    destination,
+    format: "css/variables",
+    filter,
+    options: {
+      outputReferences: keepsReferences,
+      selector,
+      fileHeader: function () {
+        return [
+          `${title} theme tokens for FreeUI design system`,
+          generatedHeader,
+        ];
+      },
+    },
+  });
+
+  const platforms = {
     css: {
-      transformGroup: "css",
+      transformGroup: "css/freeui",
+      actions: ["freeui/contrast-audit", "freeui/palette-audit"],
+      prefix: "freeui",
+      buildPath: "../css/src/generated/",
+      files: [
+        cssFile(`${theme.name}-tokens.css`, theme.selector),
+        // Imported under `theme.media.query` by the generated themes.css
+        ...(theme.media
+          ? [cssFile(`${theme.name}-media.css`, theme.media.selector)]
+          : []),
+      ],
+    },
+    cssScope: {
+      transformGroup: "css/freeui",
+      prefix: "freeui",
+      buildPath: "../css/src/generated/",
+      // The aliases point at primitives that are deliberately filtered out
+      log: { warnings: "disabled" },
+      // Imported by the generated scopes.css
+      files: [
+        cssFile(
+          `${theme.name}-scope.css`,
+          scopeSelector(theme.selector),
+          isAlias
+        ),
+        ...(theme.media
+          ? [
+              cssFile(
+                `${theme.name}-media-scope.css`,
+                scopeSelector(theme.media.selector),
+                isAlias
+              ),
+            ]
+          : []),
+      ],
+    },
+    values: {
+      transformGroup: "css/freeui",
+      prefix: "freeui",
+      buildPath: "src/generated/values/",
+      files: [
+        {
+          destination: `${theme.name}.ts`,
+          format: "typescript/freeui-token-values",
+          options: {
+            fileHeader: function () {
+              return [`${title} theme token values`, generatedHeader];
+            },
+          },
+        },
+      ],
+    },
+    dtcg: {
+      transforms: ["name/kebab"],
+      buildPath: "dist/dtcg/",
+      files: [
+        {
+          destination: `${theme.name}.tokens.json`,
+          format: "json/dtcg-bundle",
+        },
+      ],
+    },
+    tokensStudio: {
+      transforms: ["name/kebab"],
+      buildPath: "dist/tokens-studio/",
+      files: [
+        {
+          destination: `${theme.name}.json`,
+          format: "json/tokens-studio-set",
+          filter: (token) => themeGroups.includes(token.path[0]),
+        },
+      ],
+    },
+  };
+
+  if (theme.name === "light") {
+    platforms.tokensStudio.files.push(
+      {
+        destination: `${coreSet}.json`,
+        format: "json/tokens-studio-set",
+        filter: (token) => coreGroups.includes(token.path[0]),
+        options: { typography: true },
+      },
+      {
+        destination: "$themes.json",
+        format: "json/tokens-studio-themes",
+        options: { themes: themes.map(({ name }) => name) },
+      },
+      {
+        destination: "$metadata.json",
+        format: "json/tokens-studio-metadata",
+        options: { themes: themes.map(({ name }) => name) },
+      }
+    );
+    platforms.ts = {
+      transforms: [
+        "name/camel",
+        "shadow/css/dtcg",
+        "cubicBezier/css",
+        "size/css/fluid",
+      ],
+      buildPath: "src/generated/",
+      files: [
+        {
+          destination: "tokens.ts",
+          format: "typescript/freeui-tokens",
+          options: {
+            fileHeader: function () {
+              return [
+                "Design tokens for FreeUI design system",
+                generatedHeader,
+              ];
+            },
+          },
+        },
+        {
+          destination: "paths.ts",
+          format: "typescript/freeui-token-paths",
+          options: {
+            fileHeader: function () {
+              return ["Token paths for FreeUI design system", generatedHeader];
+            },
+          },
+        },
+        {
+          destination: "themes.ts",
+          format: "typescript/freeui-themes",
+          options: {
+            themes: themes.map(({ name }) => name),
+            densities: densities.map(({ name }) => name),
+            fileHeader: function () {
+              return [
+                "Themes and densities built into @rockminster/css",
+                generatedHeader,
+              ];
+            },
+          },
+        },
+      ],
+    };
+    platforms.customMedia = {
+      transformGroup: "css/freeui",
       prefix: "freeui",
       buildPath: "../css/src/generated/",
       files: [
         {
-          destination: "light-tokens.css",
-          format: "css/variables",
+          destination: "custom-media.css",
+          format: "css/freeui-custom-media",
+          filter: (token) => token.path[0] === "breakpoint",
+          options: {
+            fileHeader: function () {
+              return [
+                "Breakpoint custom media for FreeUI design system",
+                generatedHeader,
+              ];
+            },
+          },
+        },
+        {
+          destination: "custom-containers.css",
+          format: "css/freeui-custom-media",
+          filter: (token) => token.path[0] === "container",
           options: {
-            selector: ":root",
             fileHeader: function () {
               return [
-                "Light theme tokens for FreeUI design system",
-                "Auto-generated from design tokens - do not edit directly",
+                "Container size custom media for FreeUI design system",
+                generatedHeader,
               ];
             },
           },
         },
+        ...responsiveBlocks.map(({ block, title, props }) => ({
+          destination: `responsive-${block}.css`,
+          format: "css/freeui-responsive",
+          filter: (token) =>
+            token.path[0] === "breakpoint" || token.path[0] === "container",
+          options: {
+            block,
+            props,
+            fileHeader: function () {
+              return [
+                `Responsive ${title} classes for FreeUI design system`,
+                generatedHeader,
+              ];
+            },
+          },
+        })),
       ],
+    };
+    platforms.tailwind = {
+      transforms: ["name/kebab"],
+      prefix: "freeui",
+      buildPath: "src/generated/",
+      files: [
+        {
+          destination: "tailwind.ts",
+          format: "typescript/freeui-tailwind",
+          options: {
+            fileHeader: function () {
+              return [
+                "Tailwind CSS preset for FreeUI design system",
+                generatedHeader,
+              ];
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  return {
+    include: theme.include,
+    source: theme.source,
+    hooks: {
+      actions: {
+        "freeui/contrast-audit": contrastAudit({
+          theme: theme.name,
+          pairs: contrastPairs,
+          level: theme.contrastLevel,
+        }),
+        "freeui/palette-audit": paletteAudit({ theme: theme.name }),
+      },
+      transforms,
+      transformGroups,
+      formats: {
+        "css/freeui-custom-media": cssCustomMedia,
+        "css/freeui-responsive": cssResponsive,
+        "json/dtcg-bundle": dtcgBundle,
+        "json/tokens-studio-metadata": tokensStudioMetadata,
+        "json/tokens-studio-set": tokensStudioSet,
+        "json/tokens-studio-themes": tokensStudioThemes,
+        "typescript/freeui-tailwind": typescriptTailwind,
+        "typescript/freeui-token-paths": typescriptTokenPaths,
+        "typescript/freeui-token-values": typescriptTokenValues,
+        "typescript/freeui-themes": typescriptThemes,
+        "typescript/freeui-tokens": typescriptTokens,
+      },
+    },
+    platforms,
+  };
+}
+
+/**
+ * Style Dictionary config for one density from `densities.js` or motion
+ * mode from `motion.js`, as `<name>-<kind>.css`. Modes only set sizing and
+ * timing tokens, so they skip the audits and the TypeScript output; the
+ * default mode's values ship with the light theme. A mode with `media` also
+ * gets a `<name>-<kind>-media.css` file to import under `media.query`.
+ */
+function createModeConfig(kind, mode) {
+  const title = mode.name.charAt(0).toUpperCase() + mode.name.slice(1);
+
+  const cssFile = (destination, selector) => ({
+    destination,
+    format: "css/variables",
+    options: {
+      selector,
+      fileHeader: function () {
+        return [
+          `${title} ${kind} tokens for FreeUI design system`,
+          generatedHeader,
+        ];
+      },
+    },
+  });
+
+  return {
+    source: mode.source,
+    hooks: {
+      transforms,
+      transformGroups,
     },
-  },
+    platforms: {
+      css: {
+        transformGroup: "css/freeui",
+        prefix: "freeui",
+        buildPath: "../css/src/generated/",
+        files: [
+          cssFile(`${mode.name}-${kind}.css`, mode.selector),
+          ...(mode.media
+            ? [cssFile(`${mode.name}-${kind}-media.css`, mode.media.selector)]
+            : []),
+        ],
+      },
+    },
+  };
+}
+
+module.exports = {
+  createConfig,
+  createModeConfig,
 };
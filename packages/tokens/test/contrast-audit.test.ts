@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  contrastAudit,
+  contrastRatio,
+  parseHex,
+  toLinear,
+} from "../actions/contrast-audit";
+import { contrastPairs } from "../actions/contrast-pairs";
+import { checkContrast, tokenValue, type TokenPath } from "../src";
+import { parseColor, toLinear as toLinearChannel } from "../src/color";
+import { values as light } from "../src/generated/values/light";
+
+/** Style Dictionary's `dictionary` for the audit, from path → value */
+function dictionary(values: Record<string, string>) {
+  return {
+    allTokens: Object.entries(values).map(([path, $value]) => ({
+      path: path.split("."),
+      $value,
+    })),
+  };
+}
+
+function audit(values: Record<string, string>, pairs = contrastPairs) {
+  return () =>
+    contrastAudit({ theme: "light", pairs, level: undefined }).do(
+      dictionary(values)
+    );
+}
+
+describe("contrast audit", () => {
+  it("computes the same ratios as checkContrast", () => {
+    for (const theme of ["light", "dark"] as const) {
+      for (const { fg, bg } of contrastPairs) {
+        const [foreground, background] = [fg, bg].map((path) =>
+          tokenValue(path as TokenPath, theme)
+        );
+        expect(contrastRatio(foreground, background)).toBeCloseTo(
+          checkContrast(foreground, background).ratio,
+          10
+        );
+      }
+    }
+    for (const color of ["#fff", "#0f172a", "#7C3AED"]) {
+      expect(parseHex(color)).toEqual(parseColor(color));
+    }
+    for (let channel = 0; channel <= 255; channel++) {
+      expect(toLinear(channel / 255)).toBe(toLinearChannel(channel));
+    }
+  });
+
+  it("passes the light theme's pairs", () => {
+    expect(audit(light)).not.toThrow();
+  });
+
+  it("fails the build with a report when a pair drops below its level", () => {
+    const values = { ...light, "color.text.default": "#94a3b8" };
+
+    expect(audit(values)).toThrow(
+      /^Contrast audit failed for the light theme \(\d+ of \d+ pairs\):\n {2}✗ Body text\n/
+    );
+    expect(audit(values)).toThrow(
+      `color.text.default (#94a3b8) on color.surface.default (${light["color.surface.default"]})`
+    );
+    expect(audit(values)).toThrow("needs 7:1 for AAA text");
+  });
+
+  it("holds every pair to the audit level", () => {
+    const pair = {
+      name: "Muted text",
+      fg: "color.text.default",
+      bg: "color.surface.default",
+      level: "AA",
+    };
+    // #767676 on white is 4.54:1: AA for text, not AAA
+    const values = {
+      "color.text.default": "#767676",
+      "color.surface.default": "#ffffff",
+    };
+
+    expect(() =>
+      contrastAudit({ theme: "light", pairs: [pair], level: undefined }).do(
+        dictionary(values)
+      )
+    ).not.toThrow();
+    expect(() =>
+      contrastAudit({ theme: "light", pairs: [pair], level: "AAA" }).do(
+        dictionary(values)
+      )
+    ).toThrow("4.54:1, needs 7:1 for AAA text");
+  });
+
+  it("fails on pairs that reference missing tokens", () => {
+    expect(
+      audit(light, [
+        {
+          name: "Typo",
+          fg: "color.text.defualt",
+          bg: "color.surface.default",
+          level: "AA",
+        },
+      ])
+    ).toThrow(
+      'Contrast audit (light): token "color.text.defualt" does not exist'
+    );
+  });
+});
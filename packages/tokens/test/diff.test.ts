@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { diffTokenSets } from "../diff";
+
+const before = {
+  light: {
+    color: {
+      $type: "color",
+      brand: {
+        "500": { $value: "#0ea5e9" },
+        "600": { $value: "#0284c7" },
+      },
+      accent: { $value: "#7c3aed" },
+      text: { link: { $value: "{color.brand.600}" } },
+    },
+    radius: {
+      $type: "dimension",
+      md: { $value: "6px" },
+    },
+  },
+};
+
+describe("diffTokenSets", () => {
+  it("reports nothing for identical sets", () => {
+    const result = diffTokenSets(before, before);
+
+    expect(result.changes).toEqual([]);
+    expect(result.breaking).toBe(false);
+  });
+
+  it("classifies added and changed values as non-breaking", () => {
+    const after = structuredClone(before);
+    after.light.color.brand["500"].$value = "#0284c7";
+    Object.assign(after.light.radius, { lg: { $value: "8px" } });
+
+    const result = diffTokenSets(before, after);
+
+    expect(result.breaking).toBe(false);
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        kind: "changed",
+        path: "color.brand.500",
+        from: "#0ea5e9",
+        to: "#0284c7",
+        deltaE: expect.any(Number),
+        breaking: false,
+      }),
+      expect.objectContaining({
+        kind: "added",
+        path: "radius.lg",
+        breaking: false,
+      }),
+    ]);
+  });
+
+  it("classifies removed tokens as breaking", () => {
+    const after = structuredClone(before);
+    delete (after.light.radius as Partial<typeof after.light.radius>).md;
+
+    const result = diffTokenSets(before, after);
+
+    expect(result.breaking).toBe(true);
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        kind: "removed",
+        path: "radius.md",
+        value: "6px",
+        breaking: true,
+      }),
+    ]);
+  });
+
+  it("pairs a removed and an added token with the same value as a rename", () => {
+    const { accent, ...color } = before.light.color;
+    const after = {
+      light: { ...before.light, color: { ...color, highlight: accent } },
+    };
+
+    const result = diffTokenSets(before, after);
+
+    expect(result.breaking).toBe(true);
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        kind: "renamed",
+        path: "color.accent",
+        to: "color.highlight",
+        breaking: true,
+      }),
+    ]);
+  });
+
+  it("compares resolved values and flags type changes as breaking", () => {
+    const after = structuredClone(before);
+    after.light.color.brand["600"].$value = "#0369a1";
+    after.light.radius.$type = "number";
+
+    const result = diffTokenSets(before, after);
+
+    expect(result.breaking).toBe(true);
+    expect(result.changes).toContainEqual(
+      expect.objectContaining({
+        kind: "changed",
+        path: "color.text.link",
+        from: "#0284c7",
+        to: "#0369a1",
+        breaking: false,
+      })
+    );
+    expect(result.changes).toContainEqual(
+      expect.objectContaining({
+        kind: "changed",
+        path: "radius.md",
+        previousType: "dimension",
+        type: "number",
+        breaking: true,
+      })
+    );
+  });
+
+  it("reads legacy value tokens", () => {
+    const legacy = {
+      light: {
+        color: {
+          brand: {
+            "500": { value: "#0ea5e9" },
+            "600": { value: "#0284c7" },
+          },
+          accent: { value: "#7c3aed" },
+          text: { link: { value: "{color.brand.600.value}" } },
+          removed: { value: "#000000" },
+        },
+        radius: { md: { value: "6px", type: "dimension" } },
+      },
+    };
+
+    const result = diffTokenSets(legacy, before);
+
+    expect(result.breaking).toBe(true);
+    expect(result.changes).toEqual([
+      expect.objectContaining({ kind: "removed", path: "color.removed" }),
+    ]);
+  });
+
+  it("throws when either side has no tokens", () => {
+    expect(() => diffTokenSets({ light: {} }, before)).toThrow(
+      'The old token set "light" has no tokens'
+    );
+    expect(() =>
+      diffTokenSets(before, { light: { color: { $type: "color" } } })
+    ).toThrow('The new token set "light" has no tokens');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { paletteAudit } from "../actions/palette-audit";
+import { tokenPaths, tokenValue } from "../src";
+
+/** Style Dictionary's `dictionary` for the audit, with the theme's values */
+function dictionary(theme: "light" | "dark", overrides = {}) {
+  const values: Record<string, string> = {
+    ...Object.fromEntries(
+      tokenPaths
+        .filter(
+          (path) =>
+            path.startsWith("color.data.") || path === "color.surface.default"
+        )
+        .map((path) => [path, tokenValue(path, theme)])
+    ),
+    ...overrides,
+  };
+  return {
+    allTokens: Object.entries(values).map(([path, $value]) => ({
+      path: path.split("."),
+      $value,
+    })),
+  };
+}
+
+function audit(theme: "light" | "dark", overrides = {}) {
+  return () => paletteAudit({ theme }).do(dictionary(theme, overrides));
+}
+
+describe("palette audit", () => {
+  it("passes the light and dark palettes", () => {
+    expect(audit("light")).not.toThrow();
+    expect(audit("dark")).not.toThrow();
+  });
+
+  it("fails when a categorical color drops below 3:1 on the surface", () => {
+    expect(audit("light", { "color.data.categorical.3": "#cbd5e1" })).toThrow(
+      /^Palette audit failed for the light theme:\n {2}✗ color\.data\.categorical\.3 \(#cbd5e1\) on color\.surface\.default \(#[0-9a-f]{6}\) is 1\.\d\d:1, needs 3:1/
+    );
+  });
+
+  it("fails when two categorical colors can't be told apart", () => {
+    const first = tokenValue("color.data.categorical.1");
+
+    expect(audit("light", { "color.data.categorical.2": first })).toThrow(
+      `✗ color.data.categorical.1 (${first}) and color.data.categorical.2 (${first}) are 0.000 apart with normal vision`
+    );
+  });
+
+  it("fails when sequential or diverging steps fall out of lightness order", () => {
+    expect(
+      audit("light", {
+        "color.data.sequential.3": tokenValue("color.data.sequential.4"),
+        "color.data.sequential.4": tokenValue("color.data.sequential.3"),
+      })
+    ).toThrow("✗ color.data.sequential does not change lightness in order");
+    expect(
+      audit("light", {
+        "color.data.diverging.2": tokenValue("color.data.diverging.1"),
+        "color.data.diverging.1": tokenValue("color.data.diverging.2"),
+      })
+    ).toThrow(
+      "✗ color.data.diverging does not change lightness in order towards its midpoint"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import postcss from "postcss";
+import tailwindcss from "tailwindcss";
+import { describe, expect, it } from "vitest";
+import { motions } from "../motion";
+import reducedMotion from "../src/motion/reduced.json";
+import { freeuiPreset } from "../src/tailwind";
+
+/** Compile the utilities `classes` use with only the FreeUI preset */
+async function compile(classes: string[]): Promise<string> {
+  const result = await postcss([
+    tailwindcss({
+      presets: [freeuiPreset],
+      content: [{ raw: classes.join(" ") }],
+      corePlugins: { preflight: false },
+    }),
+  ]).process("@tailwind utilities;", { from: undefined });
+  return result.css;
+}
+
+describe("freeuiPreset", () => {
+  it("applies opacity modifiers to token colors", async () => {
+    const css = await compile(["bg-brand-500/50", "text-text-default"]);
+
+    expect(css).toContain(
+      "background-color: color-mix(in srgb, var(--freeui-color-brand-500) calc(0.5 * 100%), transparent)"
+    );
+    expect(css).toContain(
+      "color: color-mix(in srgb, var(--freeui-color-text-default) calc(var(--tw-text-opacity, 1) * 100%), transparent)"
+    );
+  });
+
+  it("keeps the current, inherit and transparent keywords", async () => {
+    const css = await compile([
+      "text-current",
+      "border-inherit",
+      "bg-transparent",
+    ]);
+
+    expect(css).toContain("color: currentColor");
+    expect(css).toContain("border-color: inherit");
+    expect(css).toContain("background-color: transparent");
+  });
+
+  it("collapses transition durations under prefers-reduced-motion", async () => {
+    const css = await compile([
+      "duration-fast",
+      "duration-normal",
+      "duration-slow",
+    ]);
+    const variables = [
+      ...css.matchAll(/transition-duration: var\(--freeui-([\w-]+)\)/g),
+    ].map(([, name]) => name);
+
+    expect(variables.sort()).toEqual([
+      "motion-duration-fast",
+      "motion-duration-normal",
+      "motion-duration-slow",
+    ]);
+
+    // The reduced motion mode sets those variables to 0ms for users who ask
+    const reduced = motions.find(({ name }) => name === "reduced");
+    expect(reduced?.media?.query).toBe("(prefers-reduced-motion: reduce)");
+    expect(
+      Object.values(reducedMotion.motion.duration).map(({ $value }) => $value)
+    ).toEqual(["0ms", "0ms", "0ms"]);
+  });
+});
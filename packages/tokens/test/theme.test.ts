@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTheme,
+  toCssVariables,
+  toTokenOverrides,
+  tokenPaths,
+} from "../src";
+
+describe("createTheme", () => {
+  const theme = createTheme({
+    brand: "#7c3aed",
+    neutral: "#64748b",
+    semantic: { success: "#16a34a", error: "#dc2626" },
+  });
+
+  it.each(["light", "dark"] as const)(
+    "round-trips the %s variant through toCssVariables",
+    (variant) => {
+      const variables = toCssVariables(toTokenOverrides(theme[variant]));
+
+      expect(variables["--freeui-color-brand-500"]).toMatch(/^#[0-9a-f]{6}$/);
+      expect(variables["--freeui-color-neutral-950"]).toMatch(/^#[0-9a-f]{6}$/);
+      expect(variables["--freeui-color-semantic-error-600"]).toMatch(
+        /^#[0-9a-f]{6}$/
+      );
+      expect(Object.keys(variables)).not.toContain("--freeui-color-$type");
+    }
+  );
+
+  it("only emits semantic steps the token sources define", () => {
+    const steps = Object.keys(theme.light.color.semantic?.success ?? {});
+
+    expect(steps).toEqual(["50", "400", "500", "600", "700", "800"]);
+    for (const step of steps) {
+      expect(tokenPaths).toContain(`color.semantic.success.${step}`);
+    }
+  });
+
+  it("keeps the DTCG shape for Style Dictionary builds", () => {
+    expect(theme.light.color.$type).toBe("color");
+    expect(theme.light.color.brand["600"].$value).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { values as dark } from "../src/generated/values/dark";
+import { values as light } from "../src/generated/values/light";
+import {
+  cssVar,
+  toCssVariables,
+  tokenValue,
+  type TokenOverrides,
+  type TokenPath,
+} from "../src";
+
+describe("cssVar", () => {
+  it("references the token's custom property", () => {
+    expect(cssVar("color.semantic.error.600")).toBe(
+      "var(--freeui-color-semantic-error-600)"
+    );
+    expect(cssVar("spacing.4")).toBe("var(--freeui-spacing-4)");
+  });
+
+  it("throws on paths that are not tokens", () => {
+    expect(() => cssVar("color.brand.501" as TokenPath)).toThrow(
+      'Unknown token "color.brand.501"'
+    );
+  });
+});
+
+describe("tokenValue", () => {
+  it("resolves a token in the light theme by default", () => {
+    expect(tokenValue("color.text.default")).toBe(light["color.text.default"]);
+    expect(tokenValue("spacing.4")).toBe("1rem");
+  });
+
+  it("resolves the dark theme's own values", () => {
+    expect(tokenValue("color.text.default", "dark")).toBe(
+      dark["color.text.default"]
+    );
+    expect(tokenValue("color.text.default", "dark")).not.toBe(
+      tokenValue("color.text.default", "light")
+    );
+  });
+
+  it("falls back to the light value for tokens a theme doesn't override", () => {
+    expect("spacing.4" in dark).toBe(false);
+    expect(tokenValue("spacing.4", "dark")).toBe("1rem");
+  });
+
+  it("throws on paths that are not tokens", () => {
+    expect(() => tokenValue("spacing.typo" as TokenPath, "dark")).toThrow(
+      'Unknown token "spacing.typo"'
+    );
+  });
+});
+
+describe("toCssVariables", () => {
+  const overrides = {
+    color: { brand: { 500: "#7c3aed", 501: "#000000" } },
+  } as TokenOverrides;
+
+  it("throws on keys that are not tokens", () => {
+    expect(() => toCssVariables(overrides)).toThrow(
+      'Unknown token "color.brand.501"'
+    );
+  });
+
+  it("reports and skips unknown keys when given onUnknownToken", () => {
+    const unknown: string[] = [];
+
+    expect(toCssVariables(overrides, (path) => unknown.push(path))).toEqual({
+      "--freeui-color-brand-500": "#7c3aed",
+    });
+    expect(unknown).toEqual(["color.brand.501"]);
+  });
+});
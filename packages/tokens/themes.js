@@ -0,0 +1,99 @@
+/**
+ * Theme discovery for the tokens build.
+ *
+ * `light` and `dark` come from `src/light.json` / `src/dark.json` (`light`
+ * also carries the core tokens, the default density and the default motion
+ * mode), and the `high-contrast-*` overlays in `src/high-contrast/` also
+ * apply under `@media (prefers-contrast: more)` to the base theme they
+ * extend. Every `src/themes/<brand>/{light,dark}.json` overlay adds a
+ * `<brand>-light` / `<brand>-dark` theme: the overlay is merged over the
+ * matching base color set (pulled in through `include`, which sources
+ * override) and emitted under `[data-theme="<brand>-<variant>"]`.
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const { defaultDensity } = require("./densities");
+const { defaultMotion } = require("./motion");
+
+const variants = ["light", "dark"];
+
+const themesDir = path.join(__dirname, "src/themes");
+
+const baseThemes = [
+  {
+    name: "light",
+    selector: ":root",
+    source: [
+      "src/core.json",
+      `src/density/${defaultDensity}.json`,
+      `src/motion/${defaultMotion}.json`,
+      "src/light.json",
+    ],
+  },
+  {
+    name: "dark",
+    selector: ':root[data-theme="dark"]',
+    source: ["src/dark.json"],
+  },
+  {
+    name: "high-contrast-light",
+    selector: '[data-theme="high-contrast-light"]',
+    media: {
+      query: "(prefers-contrast: more)",
+      selector: ':root:not([data-theme]), :root[data-theme="light"]',
+    },
+    contrastLevel: "AAA",
+    include: ["src/light.json"],
+    source: ["src/high-contrast/light.json"],
+  },
+  {
+    name: "high-contrast-dark",
+    selector: '[data-theme="high-contrast-dark"]',
+    media: {
+      query: "(prefers-contrast: more)",
+      selector: ':root[data-theme="dark"]',
+    },
+    contrastLevel: "AAA",
+    include: ["src/dark.json"],
+    source: ["src/high-contrast/dark.json"],
+  },
+];
+
+function discoverThemes() {
+  const brands = fs.existsSync(themesDir)
+    ? fs
+        .readdirSync(themesDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort()
+    : [];
+
+  const brandThemes = brands.flatMap((brand) => {
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(brand)) {
+      throw new Error(
+        `Theme directory "src/themes/${brand}" must be a kebab-case name`
+      );
+    }
+    const overlays = variants.filter((variant) =>
+      fs.existsSync(path.join(themesDir, brand, `${variant}.json`))
+    );
+    if (overlays.length === 0) {
+      throw new Error(
+        `Theme directory "src/themes/${brand}" has no light.json or dark.json`
+      );
+    }
+    return overlays.map((variant) => ({
+      name: `${brand}-${variant}`,
+      selector: `[data-theme="${brand}-${variant}"]`,
+      include: [`src/${variant}.json`],
+      source: [`src/themes/${brand}/${variant}.json`],
+    }));
+  });
+
+  return [...baseThemes, ...brandThemes];
+}
+
+module.exports = {
+  discoverThemes,
+};
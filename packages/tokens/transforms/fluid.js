@@ -0,0 +1,47 @@
+/**
+ * `size/css/fluid` — CSS `clamp()` for `fluidDimension` tokens.
+ *
+ * A fluid token interpolates linearly from `min` at the `minViewport` width
+ * to `max` at the `maxViewport` width, and holds those sizes outside that
+ * range. The preferred value mixes `rem` and `vw`, so the size still
+ * follows the user's font size setting and zoom.
+ */
+
+const remBase = 16;
+
+function toRem(value, token) {
+  const match = /^(-?\d*\.?\d+)(rem|px)$/.exec(value);
+  if (!match) {
+    throw new Error(
+      `Fluid token "${token.path.join(".")}" needs rem or px sizes, got "${value}"`
+    );
+  }
+  return match[2] === "px" ? Number(match[1]) / remBase : Number(match[1]);
+}
+
+function round(value) {
+  return Number(value.toFixed(4));
+}
+
+const fluidCss = {
+  type: "value",
+  // the bounds reference font sizes and viewport tokens
+  transitive: true,
+  filter: (token) => token.$type === "fluidDimension",
+  transform: (token) => {
+    const { min, max, minViewport, maxViewport } = token.$value;
+    const [minSize, maxSize, minWidth, maxWidth] = [
+      min,
+      max,
+      minViewport,
+      maxViewport,
+    ].map((value) => toRem(value, token));
+    const slope = (maxSize - minSize) / (maxWidth - minWidth);
+    const intercept = minSize - slope * minWidth;
+    return `clamp(${min}, ${round(intercept)}rem + ${round(slope * 100)}vw, ${max})`;
+  },
+};
+
+module.exports = {
+  fluidCss,
+};
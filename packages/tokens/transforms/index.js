@@ -0,0 +1,40 @@
+/**
+ * Transforms shared by the light and dark Style Dictionary configs.
+ */
+
+const { fluidCss } = require("./fluid");
+const { shadowCss } = require("./shadow");
+
+const transforms = {
+  "shadow/css/dtcg": shadowCss,
+  "size/css/fluid": fluidCss,
+};
+
+/**
+ * Style Dictionary's `css` group with `shadow/css/shorthand` swapped for the
+ * DTCG-aware `shadow/css/dtcg`, plus `size/css/fluid` for fluid type.
+ */
+const transformGroups = {
+  "css/freeui": [
+    "attribute/cti",
+    "name/kebab",
+    "time/seconds",
+    "html/icon",
+    "size/rem",
+    "color/css",
+    "asset/url",
+    "fontFamily/css",
+    "cubicBezier/css",
+    "strokeStyle/css/shorthand",
+    "border/css/shorthand",
+    "typography/css/shorthand",
+    "transition/css/shorthand",
+    "shadow/css/dtcg",
+    "size/css/fluid",
+  ],
+};
+
+module.exports = {
+  transforms,
+  transformGroups,
+};
@@ -0,0 +1,42 @@
+/**
+ * `shadow/css/dtcg` — CSS shorthand for DTCG shadow tokens.
+ *
+ * Style Dictionary's built-in `shadow/css/shorthand` reads the pre-spec
+ * `type: "inset"` key; DTCG sources mark inner shadows with `inset: true`.
+ * Layers may be a single object or an array, and plain strings (`none`)
+ * pass through untouched.
+ */
+
+function stringifyLayer(layer) {
+  if (typeof layer !== "object") {
+    return layer;
+  }
+  const { inset, offsetX, offsetY, blur, spread, color } = layer;
+  return [
+    inset ? "inset" : null,
+    offsetX ?? "0px",
+    offsetY ?? "0px",
+    blur ?? "0px",
+    spread ?? "0px",
+    color ?? "#000000",
+  ]
+    .filter((part) => part !== null)
+    .join(" ");
+}
+
+const shadowCss = {
+  type: "value",
+  // shadow layers can reference other tokens
+  transitive: true,
+  filter: (token) => token.$type === "shadow",
+  transform: (token) => {
+    const value = token.$value;
+    return Array.isArray(value)
+      ? value.map(stringifyLayer).join(", ")
+      : stringifyLayer(value);
+  },
+};
+
+module.exports = {
+  shadowCss,
+};
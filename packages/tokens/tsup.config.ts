@@ -1,9 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/tailwind.ts"],
   format: ["cjs", "esm"],
   dts: true,
-  clean: true,
+  // dist/dtcg and dist/tokens-studio are written by build:tokens before tsup
+  clean: ["!dtcg/**", "!tokens-studio/**"],
   sourcemap: true,
 });
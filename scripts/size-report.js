@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/**
+ * Bundle-size report for every published entry point:
+ *
+ *   pnpm build && pnpm size [--json]
+ *
+ * Each `@rockminster/react` entry from `packages/react/entries.js` is
+ * measured as what an app ships for it: the ESM module with the shared
+ * chunks it imports, plus the `@rockminster/css` stylesheets it lists. The
+ * full bundles and the shared `tokens.css` are measured on their own. Sizes
+ * are gzipped bytes of the unminified build; the command fails when an
+ * entry exceeds its budget in `size-budgets.json`.
+ */
+
+const fs = require("node:fs");
+const path = require("node:path");
+const zlib = require("node:zlib");
+const { entries } = require("../packages/react/entries");
+
+const root = path.join(__dirname, "..");
+const reactDist = path.join(root, "packages/react/dist");
+const cssDist = path.join(root, "packages/css/dist");
+const budgets = JSON.parse(
+  fs.readFileSync(path.join(root, "size-budgets.json"), "utf8")
+);
+
+function read(file) {
+  if (!fs.existsSync(file)) {
+    throw new Error(`${path.relative(root, file)} is missing; run pnpm build`);
+  }
+  return fs.readFileSync(file, "utf8");
+}
+
+/** An ESM build file and every relative module it imports, once each */
+function moduleGraph(file, seen = new Set()) {
+  if (seen.has(file)) return [];
+  seen.add(file);
+  const source = read(file);
+  const imports = [...source.matchAll(/from\s+"(\.\/[^"]+)"/g)].map(
+    ([, specifier]) => path.join(path.dirname(file), specifier)
+  );
+  return [source, ...imports.flatMap((dep) => moduleGraph(dep, seen))];
+}
+
+function gzipSize(sources) {
+  return sources.length === 0
+    ? 0
+    : zlib.gzipSync(sources.join("\n"), { level: 9 }).length;
+}
+
+function measure(name, jsFile, stylesheets) {
+  const js = jsFile ? gzipSize(moduleGraph(jsFile)) : 0;
+  const css = gzipSize(
+    stylesheets.map((sheet) => read(path.join(cssDist, sheet)))
+  );
+  const total = js + css;
+  const budget = budgets[name];
+  return {
+    name,
+    js,
+    css,
+    total,
+    budget: budget ?? null,
+    over: budget !== undefined && total > budget,
+  };
+}
+
+function formatBytes(bytes) {
+  return bytes === 0 ? "-" : `${(bytes / 1024).toFixed(2)} kB`;
+}
+
+function formatMarkdown(rows) {
+  return [
+    "| Entry point | JS (gzip) | CSS (gzip) | Total | Budget |",
+    "| --- | --- | --- | --- | --- |",
+    ...rows.map(
+      (row) =>
+        `| \`${row.name}\` | ${formatBytes(row.js)} | ${formatBytes(row.css)} | ${formatBytes(row.total)} | ${
+          row.budget === null
+            ? "-"
+            : `${formatBytes(row.budget)} ${row.over ? "✗" : "✓"}`
+        } |`
+    ),
+    "",
+  ].join("\n");
+}
+
+function main() {
+  const rows = [
+    measure("@rockminster/react", path.join(reactDist, "index.mjs"), [
+      "index.css",
+    ]),
+    measure("@rockminster/css/tokens.css", null, ["tokens.css"]),
+    ...entries.map(({ name, css }) =>
+      measure(
+        `@rockminster/react/${name}`,
+        path.join(reactDist, `${name}.mjs`),
+        css.map((sheet) => `${sheet}.css`)
+      )
+    ),
+  ];
+
+  const unknown = Object.keys(budgets).filter(
+    (name) => !rows.some((row) => row.name === name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`size-budgets.json lists unknown entries: ${unknown}`);
+  }
+
+  process.stdout.write(
+    process.argv.includes("--json")
+      ? JSON.stringify(rows, null, 2) + "\n"
+      : formatMarkdown(rows)
+  );
+
+  const over = rows.filter((row) => row.over);
+  if (over.length > 0) {
+    console.error(
+      `Over budget: ${over.map(({ name }) => name).join(", ")}. Trim the entry or raise its budget in size-budgets.json.`
+    );
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 1;
+}